@@ -20,6 +20,9 @@ function createAnnotationMark(name: string) {
     // Allow this mark to coexist with other annotation marks
     excludes: '',
 
+    // Text typed at the edges isn't part of the annotated span
+    inclusive: false,
+
     addAttributes() {
       return { ...baseAttributes }
     },
@@ -0,0 +1,121 @@
+import { Extension } from '@tiptap/core'
+import { Node as ProseMirrorNode } from '@tiptap/pm/model'
+import { Transaction } from '@tiptap/pm/state'
+
+type MarkRange = { from: number; to: number }
+
+// Where an annotation's mark should be in the document
+export interface AnnotationMarkTarget {
+  annotationId: string
+  type: 'reference' | 'list' | 'connection' // Mark name
+  ranges: MarkRange[]
+}
+
+const ANNOTATION_MARK_TYPES = ['reference', 'list', 'connection']
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    annotationSync: {
+      // Bring annotation marks in line with the targets, touching only annotations that changed
+      syncAnnotationMarks: (targets: AnnotationMarkTarget[]) => ReturnType
+    }
+  }
+}
+
+// Annotation marks currently in the document, as contiguous ranges per annotation
+function collectMarkedRanges(doc: ProseMirrorNode): Map<string, { type: string; ranges: MarkRange[] }> {
+  const marked = new Map<string, { type: string; ranges: MarkRange[] }>()
+
+  doc.descendants((node, pos) => {
+    if (!node.isInline) return true
+
+    node.marks.forEach(mark => {
+      const annotationId = mark.attrs.annotationId
+      if (!ANNOTATION_MARK_TYPES.includes(mark.type.name) || !annotationId) return
+
+      let entry = marked.get(annotationId)
+      if (!entry) {
+        entry = { type: mark.type.name, ranges: [] }
+        marked.set(annotationId, entry)
+      }
+
+      const last = entry.ranges[entry.ranges.length - 1]
+      if (last && last.to === pos) {
+        last.to = pos + node.nodeSize
+      } else {
+        entry.ranges.push({ from: pos, to: pos + node.nodeSize })
+      }
+    })
+    return false
+  })
+
+  return marked
+}
+
+// Sort, clamp and merge overlapping or touching ranges so they compare equal to collected ones
+function normalizeRanges(ranges: MarkRange[], size: number): MarkRange[] {
+  const sorted = ranges
+    .map(range => ({ from: Math.max(0, range.from), to: Math.min(size, range.to) }))
+    .filter(range => range.from < range.to)
+    .sort((a, b) => a.from - b.from)
+
+  const merged: MarkRange[] = []
+  for (const range of sorted) {
+    const last = merged[merged.length - 1]
+    if (last && range.from <= last.to) {
+      last.to = Math.max(last.to, range.to)
+    } else {
+      merged.push({ ...range })
+    }
+  }
+  return merged
+}
+
+function sameRanges(a: MarkRange[], b: MarkRange[]): boolean {
+  return a.length === b.length && a.every((range, i) => range.from === b[i].from && range.to === b[i].to)
+}
+
+// Add/remove steps for the annotations whose marks differ from their targets
+function applyAnnotationDiff(tr: Transaction, targets: AnnotationMarkTarget[]): void {
+  const { doc } = tr
+  const { schema } = doc.type
+  const current = collectMarkedRanges(doc)
+  const wanted = new Map(targets.map(target => [target.annotationId, target]))
+
+  current.forEach((existing, annotationId) => {
+    const target = wanted.get(annotationId)
+    if (target && target.type === existing.type && sameRanges(normalizeRanges(target.ranges, doc.content.size), existing.ranges)) {
+      return
+    }
+    const mark = schema.marks[existing.type].create({ annotationId })
+    existing.ranges.forEach(range => tr.removeMark(range.from, range.to, mark))
+  })
+
+  wanted.forEach((target, annotationId) => {
+    const ranges = normalizeRanges(target.ranges, doc.content.size)
+    const existing = current.get(annotationId)
+    if (existing && existing.type === target.type && sameRanges(ranges, existing.ranges)) {
+      return
+    }
+    const mark = schema.marks[target.type].create({ annotationId })
+    ranges.forEach(range => tr.addMark(range.from, range.to, mark))
+  })
+}
+
+// Keeps annotation marks in sync with the annotation list in a single transaction that
+// stays out of the undo history and leaves the selection alone
+export const AnnotationSync = Extension.create({
+  name: 'annotationSync',
+
+  addCommands() {
+    return {
+      syncAnnotationMarks: (targets: AnnotationMarkTarget[]) => ({ tr, dispatch }) => {
+        if (dispatch) {
+          applyAnnotationDiff(tr, targets)
+          tr.setMeta('addToHistory', false)
+        }
+        return true
+      },
+    }
+  },
+})
@@ -1,41 +1,112 @@
 import { Component } from 'react'
 import Sidebar from './Sidebar'
 import Note from './Note'
-import { NoteType, TextSpanAnnotation } from './types'
+import SettingsPanel from './SettingsPanel'
+import ExportPanel from './ExportPanel'
+import { NoteType, TextSpanAnnotation, Footnote } from './types'
 import { loadAll, saveNotes, saveAnnotations, generateId } from './storage'
+import { getSettings, subscribeSettings, Settings } from './settings'
+import { getStorage, handleStorageError, subscribeStorageWarnings } from './storageAdapter'
+import { deleteUnreferencedSnapshots } from './annotationSnapshots'
 import { debounce } from './utils'
 
 interface AppState {
   notes: NoteType[]
   annotations: Map<string, TextSpanAnnotation[]> // noteId -> annotations
   currentNoteId: string | null
+  isSettingsOpen: boolean
+  isExportOpen: boolean
+  isLoading: boolean
+  storageWarning: string | null
 }
 
 class App extends Component<{}, AppState> {
   private debouncedSaveNotes: (notes: NoteType[]) => void
   private debouncedSaveAnnotations: (annotations: Map<string, TextSpanAnnotation[]>) => void
+  private unsubscribeSettings: (() => void) | null = null
+  private unsubscribeStorageWarnings: (() => void) | null = null
 
   constructor(props: {}) {
     super(props)
-    const { notes, annotations } = loadAll()
 
     this.state = {
-      notes,
-      annotations,
-      currentNoteId: notes.length > 0 ? notes[0].id : null,
+      notes: [],
+      annotations: new Map(),
+      currentNoteId: null,
+      isSettingsOpen: false,
+      isExportOpen: false,
+      isLoading: true,
+      storageWarning: null,
     }
 
+    // A save that a reload or a newer save has overtaken is dropped, so it can't write
+    // stale data or delete what the newer one has
     this.debouncedSaveNotes = debounce((notes: NoteType[]) => {
-      saveNotes(notes)
+      if (!this.state.isLoading && notes === this.state.notes) {
+        saveNotes(notes)
+      }
     }, 500)
 
     this.debouncedSaveAnnotations = debounce((annotations: Map<string, TextSpanAnnotation[]>) => {
-      saveAnnotations(annotations)
+      if (!this.state.isLoading && annotations === this.state.annotations) {
+        saveAnnotations(annotations)
+      }
     }, 500)
   }
 
+  componentDidMount() {
+    this.unsubscribeSettings = subscribeSettings(this.handleSettingsChange)
+    this.unsubscribeStorageWarnings = subscribeStorageWarnings(message => this.setState({ storageWarning: message }))
+    this.loadWorkspace()
+  }
+
+  componentWillUnmount() {
+    if (this.unsubscribeSettings) {
+      this.unsubscribeSettings()
+      this.unsubscribeSettings = null
+    }
+    if (this.unsubscribeStorageWarnings) {
+      this.unsubscribeStorageWarnings()
+      this.unsubscribeStorageWarnings = null
+    }
+  }
+
+  private async loadWorkspace() {
+    this.setState({ isLoading: true })
+    const { notes, annotations } = await loadAll()
+    this.setState({
+      notes,
+      annotations,
+      currentNoteId: notes.length > 0 ? notes[0].id : null,
+      isLoading: false,
+    })
+  }
+
+  // React to settings that affect where notes come from or whether they are persisted
+  private handleSettingsChange = (settings: Settings, previous: Settings) => {
+    if (settings.mock !== previous.mock) {
+      // Switching in/out of mock mode swaps the whole dataset
+      this.loadWorkspace()
+      return
+    }
+
+    if (settings.saveNotes && !previous.saveNotes) {
+      // Persist what's already in memory as soon as saving is turned on
+      saveNotes(this.state.notes)
+      saveAnnotations(this.state.annotations)
+    }
+  }
+
   handleSelectNote = (noteId: string) => {
-    this.setState({ currentNoteId: noteId })
+    this.setState({ currentNoteId: noteId, isSettingsOpen: false, isExportOpen: false })
+  }
+
+  handleToggleSettings = () => {
+    this.setState(prev => ({ isSettingsOpen: !prev.isSettingsOpen, isExportOpen: false }))
+  }
+
+  handleToggleExport = () => {
+    this.setState(prev => ({ isExportOpen: !prev.isExportOpen, isSettingsOpen: false }))
   }
 
   handleCreateNote = () => {
@@ -52,6 +123,8 @@ class App extends Component<{}, AppState> {
     this.setState({
       notes: updatedNotes,
       currentNoteId: newNote.id,
+      isSettingsOpen: false,
+      isExportOpen: false,
     })
 
     saveNotes(updatedNotes)
@@ -69,7 +142,7 @@ class App extends Component<{}, AppState> {
     const updatedAnnotations = new Map(this.state.annotations)
     updatedAnnotations.delete(noteId)
 
-    // Clean up associated messages and checkpoints from localStorage
+    // Clean up associated messages and checkpoints from storage
     this.cleanupNoteData(noteId)
 
     this.setState({
@@ -82,32 +155,18 @@ class App extends Component<{}, AppState> {
   }
 
   // Clean up messages and checkpoints for a deleted note
-  private cleanupNoteData(noteId: string) {
-    const SHOULD_SAVE_MESSAGES = import.meta.env.VITE_SAVE_MESSAGES === 'true'
-    if (!SHOULD_SAVE_MESSAGES) {
+  private async cleanupNoteData(noteId: string) {
+    if (!getSettings().saveMessages) {
       return
     }
 
     try {
-      // Clean up messages
-      const messagesKey = 'half-formed-thought-conversations'
-      const storedMessages = localStorage.getItem(messagesKey)
-      if (storedMessages) {
-        const conversations: Record<string, any> = JSON.parse(storedMessages)
-        delete conversations[noteId]
-        localStorage.setItem(messagesKey, JSON.stringify(conversations))
-      }
-
-      // Clean up checkpoints
-      const checkpointsKey = `${messagesKey}-checkpoints`
-      const storedCheckpoints = localStorage.getItem(checkpointsKey)
-      if (storedCheckpoints) {
-        const allCheckpoints: Record<string, any> = JSON.parse(storedCheckpoints)
-        delete allCheckpoints[noteId]
-        localStorage.setItem(checkpointsKey, JSON.stringify(allCheckpoints))
-      }
+      const storage = await getStorage()
+      await storage.deleteMessages(noteId)
+      await storage.deleteCheckpoints(noteId)
+      await deleteUnreferencedSnapshots(storage)
     } catch (error) {
-      console.error('Error cleaning up note data:', error)
+      handleStorageError(error, 'cleaning up note data')
     }
   }
 
@@ -131,6 +190,28 @@ class App extends Component<{}, AppState> {
     this.debouncedSaveNotes(updatedNotes)
   }
 
+  handleUpdateFootnotes = (noteId: string, footnotes: Footnote[]) => {
+    const updatedNotes = this.state.notes.map((note) =>
+      note.id === noteId
+        ? { ...note, footnotes, updatedAt: Date.now() }
+        : note
+    )
+    this.setState({ notes: updatedNotes })
+    this.debouncedSaveNotes(updatedNotes)
+  }
+
+  // Adopt a restored workspace and persist it right away
+  handleRestoreWorkspace = (notes: NoteType[], annotations: Map<string, TextSpanAnnotation[]>) => {
+    const { currentNoteId } = this.state
+    this.setState({
+      notes,
+      annotations,
+      currentNoteId: notes.some(note => note.id === currentNoteId) ? currentNoteId : (notes.length > 0 ? notes[0].id : null),
+    })
+    saveNotes(notes)
+    saveAnnotations(annotations)
+  }
+
   handleUpdateAnnotations = (noteId: string, annotations: TextSpanAnnotation[]) => {
     const updatedAnnotations = new Map(this.state.annotations)
     updatedAnnotations.set(noteId, annotations)
@@ -139,12 +220,16 @@ class App extends Component<{}, AppState> {
   }
 
   render() {
-    const { notes, annotations, currentNoteId } = this.state
+    const { notes, annotations, currentNoteId, isSettingsOpen, isExportOpen, isLoading, storageWarning } = this.state
+    const isPanelOpen = isSettingsOpen || isExportOpen
     const currentNote = notes.find((note) => note.id === currentNoteId) || null
     const currentAnnotations = currentNote ? (annotations.get(currentNote.id) || []) : []
 
     let emptyText = ''
-    if (!currentNote && notes.length === 0) {
+    if (isLoading) {
+      emptyText = 'Loading…'
+    }
+    else if (!currentNote && notes.length === 0) {
       emptyText = 'Create your first note'
     }
     else if (!currentNote) {
@@ -159,22 +244,51 @@ class App extends Component<{}, AppState> {
           onSelectNote={this.handleSelectNote}
           onCreateNote={this.handleCreateNote}
           onDeleteNote={this.handleDeleteNote}
+          isSettingsOpen={isSettingsOpen}
+          onToggleSettings={this.handleToggleSettings}
+          isExportOpen={isExportOpen}
+          onToggleExport={this.handleToggleExport}
         />
-        {currentNote && (
+        {isSettingsOpen && (
+          <SettingsPanel onClose={this.handleToggleSettings} />
+        )}
+        {isExportOpen && (
+          <ExportPanel
+            notes={notes}
+            annotations={annotations}
+            currentNoteId={currentNoteId}
+            onRestore={this.handleRestoreWorkspace}
+            onClose={this.handleToggleExport}
+          />
+        )}
+        {!isPanelOpen && currentNote && (
           <Note
             key={currentNote.id}
             note={currentNote}
             annotations={currentAnnotations}
             onUpdateTitle={this.handleUpdateTitle}
             onUpdateContent={this.handleUpdateContent}
+            onUpdateFootnotes={this.handleUpdateFootnotes}
             onUpdateAnnotations={this.handleUpdateAnnotations}
           />
         )}
-        {!currentNote && (
+        {!isPanelOpen && !currentNote && (
           <div className="editor-empty">
             <p>{emptyText}</p>
           </div>
         )}
+        {storageWarning && (
+          <div className="analysis-error storage-warning" role="alert">
+            <span className="analysis-error-message">{storageWarning}</span>
+            <button
+              className="analysis-error-dismiss"
+              onClick={() => this.setState({ storageWarning: null })}
+              aria-label="Dismiss warning"
+            >
+              ×
+            </button>
+          </div>
+        )}
       </div>
     )
   }
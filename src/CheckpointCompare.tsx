@@ -0,0 +1,181 @@
+import { Component } from 'react'
+import { Checkpoint, TextSpanAnnotation, getTextSpans } from './types'
+import { NoteSnapshot, SnapshotDiff, diffSnapshots, countWords } from './checkpointDiff'
+import { checkpointLabel } from './CheckpointManager'
+
+interface CheckpointCompareProps {
+  checkpoints: Checkpoint[]
+  currentCheckpointId: string | null
+  live: NoteSnapshot // The note as it is now
+  annotations: TextSpanAnnotation[] // Current annotations, to describe the ones that changed
+  loadAnnotations: (checkpoint: Checkpoint) => Promise<TextSpanAnnotation[] | null> // Snapshot bodies
+  getContent: (checkpointId: string) => string | null // Checkpoint content, rebuilt from its deltas
+  onClose: () => void
+}
+
+interface CheckpointCompareState {
+  fromId: string // Checkpoint ID, or LIVE
+  toId: string
+  snapshotAnnotations: TextSpanAnnotation[] // From the compared checkpoints, for annotations deleted since
+}
+
+const LIVE = 'live'
+
+// Longest annotated text shown in the annotation lists
+const EXCERPT_LENGTH = 80
+
+// Longest the word diff may run (ms) before only word counts are shown
+const DIFF_TIMEOUT = 1000
+
+const TYPE_LABELS: Record<string, string> = {
+  reference: 'Reference',
+  list: 'List',
+  connection: 'Connection'
+}
+
+// Read-only word diff between two checkpoints, or a checkpoint and the live note
+class CheckpointCompare extends Component<CheckpointCompareProps, CheckpointCompareState> {
+  // Last diff, reused until the compared states change - re-renders don't redo it
+  private diffCache: { from: NoteSnapshot; to: NoteSnapshot; diff: SnapshotDiff | null } | null = null
+
+  constructor(props: CheckpointCompareProps) {
+    super(props)
+    const ordered = this.getOrderedCheckpoints()
+    const fromId = props.currentCheckpointId || ordered[ordered.length - 1]?.checkpointId || LIVE
+    this.state = { fromId, toId: LIVE, snapshotAnnotations: [] }
+  }
+
+  componentDidMount() {
+    this.loadSnapshotAnnotations()
+  }
+
+  componentDidUpdate(_prevProps: CheckpointCompareProps, prevState: CheckpointCompareState) {
+    if (prevState.fromId !== this.state.fromId || prevState.toId !== this.state.toId) {
+      this.loadSnapshotAnnotations()
+    }
+  }
+
+  private async loadSnapshotAnnotations() {
+    const { fromId, toId } = this.state
+    const snapshotAnnotations: TextSpanAnnotation[] = []
+    for (const checkpoint of this.props.checkpoints.filter(c => c.checkpointId === fromId || c.checkpointId === toId)) {
+      snapshotAnnotations.push(...(await this.props.loadAnnotations(checkpoint) || []))
+    }
+    // Ignore results for a pair that's no longer selected
+    if (this.state.fromId === fromId && this.state.toId === toId) {
+      this.setState({ snapshotAnnotations })
+    }
+  }
+
+  private getOrderedCheckpoints(): Checkpoint[] {
+    return [...this.props.checkpoints].sort((a, b) => a.timestamp - b.timestamp)
+  }
+
+  private getSnapshot(id: string): NoteSnapshot | null {
+    if (id === LIVE) return this.props.live
+    const checkpoint = this.props.checkpoints.find(c => c.checkpointId === id)
+    const content = checkpoint ? this.props.getContent(id) : null
+    return content === null ? null : { content, annotationIds: checkpoint.annotationIds }
+  }
+
+  private getDiff(from: NoteSnapshot, to: NoteSnapshot): SnapshotDiff | null {
+    const same = (a: NoteSnapshot, b: NoteSnapshot) =>
+      a.content === b.content && a.annotationIds.join('\n') === b.annotationIds.join('\n')
+    if (!this.diffCache || !same(this.diffCache.from, from) || !same(this.diffCache.to, to)) {
+      this.diffCache = { from, to, diff: diffSnapshots(from, to, DIFF_TIMEOUT) }
+    }
+    return this.diffCache.diff
+  }
+
+  private describeAnnotation(annotationId: string): string {
+    const entry = this.props.annotations.find(ann => ann.annotationId === annotationId) ||
+      this.state.snapshotAnnotations.find(ann => ann.annotationId === annotationId)
+    if (!entry) return 'Annotation that has since been deleted'
+
+    const text = getTextSpans(entry.textSpan).join(' … ').replace(/\s+/g, ' ').trim()
+    const excerpt = text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH - 1)}…` : text
+    return `${TYPE_LABELS[entry.annotation.type] || 'Annotation'}: "${excerpt}"`
+  }
+
+  private renderSelect(label: string, value: string, onChange: (id: string) => void) {
+    return (
+      <label className="settings-field">
+        <span>{label}</span>
+        <select value={value} onChange={(e) => onChange(e.target.value)}>
+          {this.getOrderedCheckpoints().map((checkpoint, index) => (
+            <option key={checkpoint.checkpointId} value={checkpoint.checkpointId}>
+              {`${checkpointLabel(checkpoint, index + 1)} (${new Date(checkpoint.timestamp).toLocaleString()})${checkpoint.checkpointId === this.props.currentCheckpointId ? ' - current' : ''}`}
+            </option>
+          ))}
+          <option value={LIVE}>Live note</option>
+        </select>
+      </label>
+    )
+  }
+
+  private renderAnnotationList(title: string, annotationIds: string[]) {
+    if (annotationIds.length === 0) return null
+    return (
+      <div className="checkpoint-compare-annotations">
+        <h3>{title}</h3>
+        <ul>
+          {annotationIds.map(id => <li key={id}>{this.describeAnnotation(id)}</li>)}
+        </ul>
+      </div>
+    )
+  }
+
+  render() {
+    const { onClose } = this.props
+    const { fromId, toId } = this.state
+    const from = this.getSnapshot(fromId)
+    const to = this.getSnapshot(toId)
+    const diff = from && to ? this.getDiff(from, to) : null
+    const unchanged = diff && diff.changes.every(change => !change.added && !change.removed) &&
+      diff.annotationsAdded.length === 0 && diff.annotationsDropped.length === 0
+
+    return (
+      <div className="checkpoint-overlay">
+        <div className="settings-panel">
+          <div className="settings-panel-header">
+            <h2>Compare</h2>
+            <button className="annotation-popup-close" onClick={onClose} aria-label="Close compare">
+              ×
+            </button>
+          </div>
+
+          {this.renderSelect('From', fromId, id => this.setState({ fromId: id }))}
+          {this.renderSelect('To', toId, id => this.setState({ toId: id }))}
+
+          {from && to && !diff && (
+            <div className="export-summary">
+              {`Too many changes to show word by word · ${countWords(from.content)} → ${countWords(to.content)} words`}
+            </div>
+          )}
+
+          {diff && (
+            <>
+              <div className="export-summary">
+                {unchanged
+                  ? 'No differences'
+                  : `${diff.wordsAdded} words added, ${diff.wordsRemoved} removed · ${diff.annotationsAdded.length} annotations added, ${diff.annotationsDropped.length} dropped`}
+              </div>
+              <div className="checkpoint-compare-text">
+                {diff.changes.map((change, i) => change.added
+                  ? <ins key={i}>{change.value}</ins>
+                  : change.removed
+                    ? <del key={i}>{change.value}</del>
+                    : <span key={i}>{change.value}</span>
+                )}
+              </div>
+              {this.renderAnnotationList('Annotations added', diff.annotationsAdded)}
+              {this.renderAnnotationList('Annotations dropped', diff.annotationsDropped)}
+            </>
+          )}
+        </div>
+      </div>
+    )
+  }
+}
+
+export default CheckpointCompare
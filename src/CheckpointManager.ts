@@ -1,21 +1,65 @@
-import { Checkpoint } from './types'
+import { Checkpoint, TextSpanAnnotation, AnnotationSnapshot } from './types'
+import { Message } from './LLMService'
+import { truncateToLogicalIndex } from './compaction'
+import { getSettings } from './settings'
+import { getStorage, handleStorageError } from './storageAdapter'
+import { snapshotAnnotations, saveSnapshots, fromSnapshot, deleteUnreferencedSnapshots } from './annotationSnapshots'
+import { describeCheckpoint, countWords } from './checkpointDiff'
+import { encodeCheckpoint, resolveContent } from './checkpointDelta'
 
-const SHOULD_SAVE_MESSAGES = import.meta.env.VITE_SAVE_MESSAGES === 'true'
-const STORAGE_KEY = 'half-formed-thought-conversations'
+export interface CheckpointRestoration {
+  content: string
+  annotationIds: string[]
+  annotations: TextSpanAnnotation[] | null // As they were at the checkpoint; null for checkpoints made before snapshots
+  messages: Message[] // Conversation of the restored branch, up to the checkpoint
+}
+
+// Details the user gives a checkpoint made by hand
+export interface CheckpointDetails {
+  name?: string
+  comment?: string
+}
+
+// Rebuilt checkpoint contents kept in memory
+const CONTENT_CACHE_SIZE = 20
+
+function lastVisited(checkpoint: Checkpoint): number {
+  return checkpoint.visitedAt ?? checkpoint.timestamp
+}
+
+// Display name - number is the checkpoint's position in creation order
+export function checkpointLabel(checkpoint: Checkpoint, number: number): string {
+  return checkpoint.name || `Checkpoint ${number}`
+}
 
 export class CheckpointManager {
   private noteID: string
   private checkpoints: Checkpoint[] = []
   private currentCheckpointId: string | null = null
+  private snapshots = new Map<string, AnnotationSnapshot>() // Annotation bodies seen this session, by hash
+  private contents = new Map<string, string>() // Rebuilt content by checkpoint ID, oldest first
+  readonly ready: Promise<void> // Resolves once saved checkpoints have loaded
 
   constructor(noteID: string) {
     this.noteID = noteID
-    this.checkpoints = this.loadCheckpoints()
-    // Set current checkpoint to the last one (most recent) if checkpoints exist
-    if (this.checkpoints.length > 0) {
-      const lastCheckpoint = this.checkpoints[this.checkpoints.length - 1]
-      this.currentCheckpointId = lastCheckpoint.checkpointId
-    }
+    this.ready = this.loadCheckpoints().then(checkpoints => {
+      const early = this.checkpoints
+      // The most recently created or restored checkpoint is the current one
+      const current = checkpoints.reduce<Checkpoint | null>(
+        (latest, checkpoint) => !latest || lastVisited(checkpoint) >= lastVisited(latest) ? checkpoint : latest,
+        null
+      )
+
+      // Checkpoints made before loading finished continue from the stored current one
+      if (early.length > 0 && current) {
+        early[0] = { ...early[0], parentId: current.checkpointId }
+        this.saveCheckpoints([early[0]])
+      }
+      this.checkpoints = [...checkpoints, ...early]
+      if (early.length === 0 && current) {
+        this.currentCheckpointId = current.checkpointId
+      }
+    })
   }
 
   // Get current checkpoint ID (for associating annotations)
@@ -23,52 +67,126 @@ export class CheckpointManager {
     return this.currentCheckpointId
   }
 
-  private loadCheckpoints(): Checkpoint[] {
-    if (!SHOULD_SAVE_MESSAGES) {
+  private async loadCheckpoints(): Promise<Checkpoint[]> {
+    if (!getSettings().saveMessages) {
       return []
     }
 
-    const stored = localStorage.getItem(`${STORAGE_KEY}-checkpoints`)
-    if (!stored) {
+    try {
+      const storage = await getStorage()
+      return await storage.getCheckpoints(this.noteID)
+    } catch (error) {
+      handleStorageError(error, 'loading checkpoints')
       return []
     }
+  }
+
+  // Persist new and updated checkpoints, after the annotation snapshots they refer to
+  private async saveCheckpoints(changed: Checkpoint[], snapshots: Record<string, AnnotationSnapshot> = {}): Promise<void> {
+    if (!getSettings().saveMessages) {
+      return
+    }
 
     try {
-      const parsed = JSON.parse(stored)
-      return (parsed[this.noteID] as Checkpoint[]) || []
+      const storage = await getStorage()
+      await saveSnapshots(storage, snapshots)
+      for (const checkpoint of changed) await storage.putCheckpoint(this.noteID, checkpoint)
     } catch (error) {
-      console.error('Error loading checkpoints:', error)
-      return []
+      handleStorageError(error, 'saving checkpoints')
     }
   }
 
-  private saveCheckpoints(): void {
-    if (!SHOULD_SAVE_MESSAGES) {
-      return
+  private findCheckpoint(checkpointId: string | null): Checkpoint | null {
+    return this.checkpoints.find(c => c.checkpointId === checkpointId) || null
+  }
+
+  private getCheckpointsById(): Map<string, Checkpoint> {
+    return new Map(this.checkpoints.map(c => [c.checkpointId, c]))
+  }
+
+  private cacheContent(checkpointId: string, content: string) {
+    this.contents.delete(checkpointId)
+    this.contents.set(checkpointId, content)
+    if (this.contents.size > CONTENT_CACHE_SIZE) {
+      this.contents.delete(this.contents.keys().next().value)
     }
+  }
+
+  // Full content of a checkpoint, rebuilt from its keyframe and deltas when first needed.
+  // Null if it can't be rebuilt (a keyframe is missing from storage).
+  getContent(checkpointId: string): string | null {
+    const checkpoint = this.findCheckpoint(checkpointId)
+    if (!checkpoint) return null
+    if (checkpoint.content !== undefined) return checkpoint.content
 
     try {
-      const stored = localStorage.getItem(`${STORAGE_KEY}-checkpoints`)
-      const allCheckpoints: Record<string, Checkpoint[]> = stored ? JSON.parse(stored) : {}
-      allCheckpoints[this.noteID] = this.checkpoints
-      localStorage.setItem(`${STORAGE_KEY}-checkpoints`, JSON.stringify(allCheckpoints))
+      const content = resolveContent(checkpoint, this.getCheckpointsById(), this.contents)
+      this.cacheContent(checkpointId, content)
+      return content
     } catch (error) {
-      console.error('Error saving checkpoints:', error)
+      console.error('Error rebuilding checkpoint content:', error)
+      return null
+    }
+  }
+
+  private updateCheckpoint(checkpointId: string, changes: Partial<Checkpoint>): Checkpoint {
+    let updated: Checkpoint = null
+    this.checkpoints = this.checkpoints.map(c => {
+      if (c.checkpointId !== checkpointId) return c
+      updated = { ...c, ...changes }
+      return updated
+    })
+    return updated
+  }
+
+  // Checkpoint IDs from the root down to this checkpoint
+  getPath(checkpointId: string | null): string[] {
+    const path: string[] = []
+    let checkpoint = this.findCheckpoint(checkpointId)
+    while (checkpoint && !path.includes(checkpoint.checkpointId)) {
+      path.unshift(checkpoint.checkpointId)
+      checkpoint = this.findCheckpoint(checkpoint.parentId)
     }
+    return path
   }
 
-  createCheckpoint(messageIndex: number, content: string, annotationIds: string[]): Checkpoint {
-    const checkpoint: Checkpoint = {
-      checkpointId: `checkpoint-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+  // Automatic checkpoints are made after analyses; passing details marks one as made by the user
+  createCheckpoint(messageIndex: number, content: string, annotations: TextSpanAnnotation[], details?: CheckpointDetails): Checkpoint {
+    const now = Date.now()
+    const { hashes, anchors, snapshots } = snapshotAnnotations(annotations)
+    Object.entries(snapshots).forEach(([hash, snapshot]) => this.snapshots.set(hash, snapshot))
+
+    const parent = this.findCheckpoint(this.currentCheckpointId)
+    const parentContent = parent ? this.getContent(parent.checkpointId) : null
+    const annotationIds = annotations.map(a => a.annotationId)
+    const full: Checkpoint = {
+      checkpointId: `checkpoint-${now}-${Math.random().toString(36).substr(2, 9)}`,
+      parentId: this.currentCheckpointId,
       messageIndex,
-      timestamp: Date.now(),
-      content,
-      annotationIds: [...annotationIds]
+      timestamp: now,
+      visitedAt: now,
+      ...(details ? { manual: true, name: details.name?.trim() || undefined, comment: details.comment?.trim() || undefined } : {}),
+      summary: describeCheckpoint({ content, annotationIds }, parentContent === null ? null : { content: parentContent, annotationIds: parent.annotationIds }),
+      wordCount: countWords(content),
+      annotationIds,
+      annotationSnapshots: hashes,
+      annotationAnchors: anchors
+    }
+    // Stored as changes from the parent unless it's time for a keyframe
+    const checkpoint = parentContent === null
+      ? { ...full, content }
+      : encodeCheckpoint(full, content, this.getCheckpointsById(), () => parentContent)
+    this.cacheContent(checkpoint.checkpointId, content)
+
+    const changed = [checkpoint]
+    // The branch carries on from here, so the live conversation supersedes the parent's copy
+    if (parent?.conversation) {
+      changed.push(this.updateCheckpoint(parent.checkpointId, { conversation: undefined }))
     }
 
     this.checkpoints.push(checkpoint)
     this.currentCheckpointId = checkpoint.checkpointId
-    this.saveCheckpoints()
+    this.saveCheckpoints(changed, snapshots)
 
     return checkpoint
   }
@@ -78,31 +196,133 @@ export class CheckpointManager {
     return [...this.checkpoints]
   }
 
-  // Restore to a checkpoint - returns restoration data
-  restoreToCheckpoint(checkpointId: string, onMessagesTruncate: (messageIndex: number) => void): { content: string; annotationIds: string[] } | null {
-    const checkpoint = this.checkpoints.find(c => c.checkpointId === checkpointId)
-    if (!checkpoint) {
+  // Remove checkpoints. Their children move up to the nearest remaining ancestor, and a branch
+  // conversation kept on a removed checkpoint moves there too. The current one is never removed.
+  async pruneCheckpoints(checkpointIds: string[]): Promise<number> {
+    const removed = new Set(checkpointIds.filter(id => id !== this.currentCheckpointId && this.findCheckpoint(id)))
+    if (removed.size === 0) {
+      return 0
+    }
+
+    const keptAncestor = (checkpointId: string | null): string | null => {
+      let checkpoint = this.findCheckpoint(checkpointId)
+      while (checkpoint && removed.has(checkpoint.checkpointId)) {
+        checkpoint = this.findCheckpoint(checkpoint.parentId)
+      }
+      return checkpoint ? checkpoint.checkpointId : null
+    }
+
+    // Children of removed checkpoints get a new parent, so their deltas are redone
+    const reparented = new Map<string, string>()
+    const changed = new Map<string, Partial<Checkpoint>>()
+    this.checkpoints.forEach(checkpoint => {
+      if (removed.has(checkpoint.checkpointId)) {
+        const ancestorId = keptAncestor(checkpoint.parentId)
+        const ancestor = this.findCheckpoint(ancestorId)
+        if (checkpoint.conversation && ancestor && !ancestor.conversation && !changed.get(ancestorId)?.conversation) {
+          changed.set(ancestorId, { ...changed.get(ancestorId), conversation: checkpoint.conversation })
+        }
+      } else if (removed.has(checkpoint.parentId)) {
+        reparented.set(checkpoint.checkpointId, this.getContent(checkpoint.checkpointId))
+        changed.set(checkpoint.checkpointId, { ...changed.get(checkpoint.checkpointId), parentId: keptAncestor(checkpoint.parentId) })
+      }
+    })
+
+    Array.from(changed.entries()).forEach(([checkpointId, changes]) => this.updateCheckpoint(checkpointId, changes))
+    this.checkpoints = this.checkpoints.filter(c => !removed.has(c.checkpointId))
+    // Oldest first, so a re-encoded parent is in place before its children
+    this.checkpoints
+      .filter(c => reparented.get(c.checkpointId) != null)
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .forEach(c => {
+        const encoded = encodeCheckpoint(c, reparented.get(c.checkpointId), this.getCheckpointsById(), parent => this.getContent(parent.checkpointId))
+        this.checkpoints = this.checkpoints.map(existing => existing.checkpointId === c.checkpointId ? encoded : existing)
+      })
+    const updated = this.checkpoints.filter(c => changed.has(c.checkpointId))
+
+    if (getSettings().saveMessages) {
+      try {
+        const storage = await getStorage()
+        for (const checkpoint of updated) await storage.putCheckpoint(this.noteID, checkpoint)
+        for (const checkpointId of removed) await storage.deleteCheckpoint(this.noteID, checkpointId)
+        await deleteUnreferencedSnapshots(storage)
+      } catch (error) {
+        handleStorageError(error, 'pruning checkpoints')
+      }
+    }
+
+    return removed.size
+  }
+
+  // A conversation that passed through this checkpoint: the live one if it's on the current
+  // branch, otherwise one kept on the checkpoint or a branch below it
+  private findConversation(checkpoint: Checkpoint, currentMessages: Message[]): Message[] {
+    if (this.getPath(this.currentCheckpointId).includes(checkpoint.checkpointId)) {
+      return currentMessages
+    }
+
+    const queue = [checkpoint]
+    while (queue.length > 0) {
+      const next = queue.shift()
+      if (next.conversation) return next.conversation
+      queue.push(...this.checkpoints.filter(c => c.parentId === next.checkpointId))
+    }
+    return []
+  }
+
+  // Annotation bodies as the checkpoint saw them; any whose snapshot can't be found are left out
+  async loadAnnotations(checkpoint: Checkpoint): Promise<TextSpanAnnotation[] | null> {
+    if (!checkpoint.annotationSnapshots) {
+      return null
+    }
+
+    const annotations: TextSpanAnnotation[] = []
+    for (const [annotationId, hash] of Object.entries(checkpoint.annotationSnapshots)) {
+      let snapshot = this.snapshots.get(hash)
+      if (!snapshot && getSettings().saveMessages) {
+        try {
+          const storage = await getStorage()
+          snapshot = await storage.getSnapshot(hash)
+        } catch (error) {
+          handleStorageError(error, 'loading annotation snapshots')
+        }
+      }
+      if (snapshot) {
+        this.snapshots.set(hash, snapshot)
+        annotations.push(fromSnapshot(snapshot, annotationId, this.noteID, checkpoint.annotationAnchors?.[annotationId]))
+      }
+    }
+    return annotations
+  }
+
+  // Switch to a checkpoint's branch - returns restoration data. Nothing is deleted: the branch
+  // being left keeps its conversation and can be restored later.
+  async restoreToCheckpoint(checkpointId: string, currentMessages: Message[]): Promise<CheckpointRestoration | null> {
+    const checkpoint = this.findCheckpoint(checkpointId)
+    const content = checkpoint ? this.getContent(checkpointId) : null
+    if (content === null) {
       return null
     }
 
-    // Remove messages after this checkpoint (via callback)
-    onMessagesTruncate(checkpoint.messageIndex)
+    const messages = truncateToLogicalIndex(this.findConversation(checkpoint, currentMessages), checkpoint.messageIndex)
 
-    // Remove checkpoints after this one
-    this.checkpoints = this.checkpoints.filter(c =>
-      c.timestamp <= checkpoint.timestamp
-    )
+    const changed: Checkpoint[] = []
+    if (this.currentCheckpointId && this.currentCheckpointId !== checkpointId) {
+      changed.push(this.updateCheckpoint(this.currentCheckpointId, { conversation: [...currentMessages] }))
+    }
+    changed.push(this.updateCheckpoint(checkpointId, { visitedAt: Date.now() }))
 
     // Update current checkpoint
-    this.currentCheckpointId = checkpoint.checkpointId
+    this.currentCheckpointId = checkpointId
 
     // Save changes
-    this.saveCheckpoints()
+    this.saveCheckpoints(changed.filter(Boolean))
 
     return {
-      content: checkpoint.content,
-      annotationIds: checkpoint.annotationIds
+      content,
+      annotationIds: checkpoint.annotationIds,
+      annotations: await this.loadAnnotations(checkpoint),
+      messages
     }
   }
 }
-
@@ -0,0 +1,197 @@
+import { Component } from 'react'
+import { Checkpoint } from './types'
+import { CheckpointDetails, checkpointLabel } from './CheckpointManager'
+import { RetentionRules, DEFAULT_RETENTION, selectPrunable } from './checkpointRetention'
+
+interface CheckpointTimelineProps {
+  checkpoints: Checkpoint[]
+  currentCheckpointId: string | null
+  onCreate: (details: CheckpointDetails) => void
+  onRestore: (checkpointId: string) => void
+  onPrune: (checkpointIds: string[]) => Promise<number>
+  onClose: () => void
+}
+
+interface CheckpointTimelineState {
+  name: string
+  comment: string
+  rules: RetentionRules
+  pruneStatus: string | null
+  confirmingPrune: boolean // Asked to remove - waiting for the second click
+}
+
+// Every checkpoint of the note, newest first, with a form for making one by hand and
+// retention rules for clearing out old automatic ones
+class CheckpointTimeline extends Component<CheckpointTimelineProps, CheckpointTimelineState> {
+  state: CheckpointTimelineState = {
+    name: '',
+    comment: '',
+    rules: DEFAULT_RETENTION,
+    pruneStatus: null,
+    confirmingPrune: false
+  }
+
+  private handleCreate = () => {
+    const { name, comment } = this.state
+    this.props.onCreate({ name, comment })
+    this.setState({ name: '', comment: '', pruneStatus: null })
+  }
+
+  private handlePrune = async (checkpointIds: string[]) => {
+    this.setState({ confirmingPrune: false })
+    const removed = await this.props.onPrune(checkpointIds)
+    this.setState({ pruneStatus: `Removed ${removed} ${removed === 1 ? 'checkpoint' : 'checkpoints'}` })
+  }
+
+  private updateRules(changes: Partial<RetentionRules>) {
+    this.setState({ rules: { ...this.state.rules, ...changes }, pruneStatus: null, confirmingPrune: false })
+  }
+
+  private renderEntry(checkpoint: Checkpoint, number: number) {
+    const { currentCheckpointId, onRestore } = this.props
+    const isCurrent = checkpoint.checkpointId === currentCheckpointId
+    const words = checkpoint.wordCount ?? 0
+    const annotations = checkpoint.annotationIds.length
+
+    return (
+      <li key={checkpoint.checkpointId} className={`timeline-entry ${isCurrent ? 'current' : ''}`}>
+        <div className="timeline-entry-header">
+          <span className="timeline-entry-name">{checkpointLabel(checkpoint, number)}</span>
+          {checkpoint.manual && <span className="timeline-badge">manual</span>}
+          {isCurrent && <span className="timeline-badge">current</span>}
+          <button
+            className="settings-secondary-button"
+            onClick={() => onRestore(checkpoint.checkpointId)}
+            disabled={isCurrent}
+          >
+            Restore
+          </button>
+        </div>
+        <div className="timeline-entry-meta">
+          {new Date(checkpoint.timestamp).toLocaleString()} · {words} {words === 1 ? 'word' : 'words'} · {annotations} {annotations === 1 ? 'annotation' : 'annotations'}
+        </div>
+        {checkpoint.summary && <div className="timeline-entry-summary">{checkpoint.summary}</div>}
+        {checkpoint.comment && <div className="timeline-entry-comment">{checkpoint.comment}</div>}
+      </li>
+    )
+  }
+
+  render() {
+    const { checkpoints, currentCheckpointId, onClose } = this.props
+    const { name, comment, rules, pruneStatus, confirmingPrune } = this.state
+    const ordered = [...checkpoints].sort((a, b) => a.timestamp - b.timestamp)
+    const prunable = selectPrunable(checkpoints, currentCheckpointId, rules)
+
+    return (
+      <div className="checkpoint-overlay">
+        <div className="settings-panel">
+          <div className="settings-panel-header">
+            <h2>Timeline</h2>
+            <button className="annotation-popup-close" onClick={onClose} aria-label="Close timeline">
+              ×
+            </button>
+          </div>
+
+          <section className="settings-section">
+            <h3>New checkpoint</h3>
+            <label className="settings-field">
+              <span>Name</span>
+              <input
+                type="text"
+                value={name}
+                placeholder="e.g. Before restructuring"
+                onChange={(e) => this.setState({ name: e.target.value })}
+              />
+            </label>
+            <label className="settings-field">
+              <span>Note</span>
+              <textarea
+                className="timeline-comment-input"
+                value={comment}
+                rows={2}
+                placeholder="Why this point is worth keeping"
+                onChange={(e) => this.setState({ comment: e.target.value })}
+              />
+            </label>
+            <div className="export-actions">
+              <button className="settings-secondary-button" onClick={this.handleCreate}>
+                Save checkpoint
+              </button>
+            </div>
+          </section>
+
+          <section className="settings-section">
+            <h3>Checkpoints</h3>
+            {ordered.length > 0 ? (
+              <ul className="timeline-list">
+                {ordered.map((checkpoint, index) => this.renderEntry(checkpoint, index + 1)).reverse()}
+              </ul>
+            ) : (
+              <div className="export-summary">No checkpoints yet</div>
+            )}
+          </section>
+
+          <section className="settings-section">
+            <h3>Prune</h3>
+            <div className="export-summary">Manual checkpoints and the current one are always kept.</div>
+            <label className="settings-field">
+              <span>Keep the newest automatic checkpoints</span>
+              <input
+                type="number"
+                min={0}
+                value={rules.keepRecent}
+                onChange={(e) => this.updateRules({ keepRecent: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+              />
+            </label>
+            <label className="settings-field settings-checkbox">
+              <input
+                type="checkbox"
+                checked={rules.keepDaily}
+                onChange={(e) => this.updateRules({ keepDaily: e.target.checked })}
+              />
+              <span>Keep one per day beyond those</span>
+            </label>
+            <label className="settings-field settings-checkbox">
+              <input
+                type="checkbox"
+                checked={rules.keepBranchTips}
+                onChange={(e) => this.updateRules({ keepBranchTips: e.target.checked })}
+              />
+              <span>Keep the latest checkpoint of every branch</span>
+            </label>
+            {confirmingPrune && prunable.length > 0 ? (
+              <>
+                <div className="export-summary">
+                  {`${prunable.length} ${prunable.length === 1 ? 'checkpoint' : 'checkpoints'} will be deleted. This can't be undone.`}
+                </div>
+                <div className="export-actions">
+                  <button className="settings-secondary-button" onClick={() => this.handlePrune(prunable)}>
+                    Delete permanently
+                  </button>
+                  <button className="settings-secondary-button" onClick={() => this.setState({ confirmingPrune: false })}>
+                    Cancel
+                  </button>
+                </div>
+              </>
+            ) : (
+              <div className="export-actions">
+                <button
+                  className="settings-secondary-button"
+                  onClick={() => this.setState({ confirmingPrune: true, pruneStatus: null })}
+                  disabled={prunable.length === 0}
+                >
+                  {prunable.length > 0
+                    ? `Remove ${prunable.length} ${prunable.length === 1 ? 'checkpoint' : 'checkpoints'}`
+                    : 'Nothing to remove'}
+                </button>
+              </div>
+            )}
+            {pruneStatus && <div className="export-summary">{pruneStatus}</div>}
+          </section>
+        </div>
+      </div>
+    )
+  }
+}
+
+export default CheckpointTimeline
@@ -0,0 +1,121 @@
+import { Checkpoint } from './types'
+import { checkpointLabel } from './CheckpointManager'
+
+interface CheckpointTreeProps {
+  checkpoints: Checkpoint[]
+  currentCheckpointId: string | null
+  onCheckpointClick: (checkpointId: string) => void
+  onCompare: () => void
+  onOpenTimeline: () => void
+}
+
+interface PlacedCheckpoint {
+  checkpoint: Checkpoint
+  number: number // Position in creation order, for labels
+  column: number // Depth in the tree
+  lane: number // Branch row - the first child carries on its parent's lane
+  parent: PlacedCheckpoint | null
+}
+
+// Distance between neighbouring nodes, in pixels
+const SPACING = 16
+
+function layoutTree(checkpoints: Checkpoint[]): PlacedCheckpoint[] {
+  const ordered = [...checkpoints].sort((a, b) => a.timestamp - b.timestamp)
+  const ids = new Set(ordered.map(c => c.checkpointId))
+  const placed: PlacedCheckpoint[] = []
+  let lanes = 0
+
+  const place = (checkpoint: Checkpoint, parent: PlacedCheckpoint | null, lane: number) => {
+    const node: PlacedCheckpoint = {
+      checkpoint,
+      number: ordered.indexOf(checkpoint) + 1,
+      column: parent ? parent.column + 1 : 0,
+      lane,
+      parent
+    }
+    placed.push(node)
+    ordered
+      .filter(c => c.parentId === checkpoint.checkpointId)
+      .forEach((child, index) => place(child, node, index === 0 ? lane : lanes++))
+  }
+
+  // Checkpoints whose parent is missing are drawn as roots rather than lost
+  ordered
+    .filter(c => !c.parentId || !ids.has(c.parentId))
+    .forEach(root => place(root, null, lanes++))
+
+  return placed
+}
+
+const position = (node: PlacedCheckpoint) => ({
+  x: node.column * SPACING + SPACING / 2,
+  y: node.lane * SPACING + SPACING / 2
+})
+
+// Checkpoints as a small branch diagram - every node can be restored, and the path to the
+// current one is highlighted
+const CheckpointTree = ({ checkpoints, currentCheckpointId, onCheckpointClick, onCompare, onOpenTimeline }: CheckpointTreeProps) => {
+  // Before the first checkpoint there's only the timeline, for making one by hand
+  if (checkpoints.length === 0) {
+    return (
+      <div className="checkpoint-navigation">
+        <button className="checkpoint-compare-button" onClick={onOpenTimeline}>
+          Timeline
+        </button>
+      </div>
+    )
+  }
+
+  const placed = layoutTree(checkpoints)
+  const current = placed.find(node => node.checkpoint.checkpointId === currentCheckpointId)
+  const onPath = new Set<string>()
+  for (let node = current; node; node = node.parent) {
+    onPath.add(node.checkpoint.checkpointId)
+  }
+
+  const width = (Math.max(...placed.map(node => node.column)) + 1) * SPACING
+  const height = (Math.max(...placed.map(node => node.lane)) + 1) * SPACING
+
+  return (
+    <div className="checkpoint-navigation">
+      <div className="checkpoint-tree" style={{ width, height }}>
+        <svg className="checkpoint-tree-edges" width={width} height={height} aria-hidden="true">
+          {placed.filter(node => node.parent).map(node => {
+            const from = position(node.parent)
+            const to = position(node)
+            return (
+              <path
+                key={node.checkpoint.checkpointId}
+                className={onPath.has(node.checkpoint.checkpointId) ? 'on-path' : ''}
+                d={`M ${from.x} ${from.y} L ${from.x + SPACING / 2} ${to.y} L ${to.x} ${to.y}`}
+              />
+            )
+          })}
+        </svg>
+        {placed.map(node => {
+          const { checkpointId, timestamp } = node.checkpoint
+          const { x, y } = position(node)
+          return (
+            <button
+              key={checkpointId}
+              className={`checkpoint-dot ${checkpointId === currentCheckpointId ? 'active' : ''}`}
+              style={{ left: x, top: y }}
+              onClick={() => onCheckpointClick(checkpointId)}
+              aria-label={`Go to checkpoint ${node.number}`}
+              title={`${checkpointLabel(node.checkpoint, node.number)} · ${new Date(timestamp).toLocaleString()}`}
+            />
+          )
+        })}
+      </div>
+      <button className="checkpoint-compare-button" onClick={onCompare}>
+        Compare
+      </button>
+      <button className="checkpoint-compare-button" onClick={onOpenTimeline}>
+        Timeline
+      </button>
+    </div>
+  )
+}
+
+export default CheckpointTree
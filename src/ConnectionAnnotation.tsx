@@ -1,8 +1,11 @@
 import React, { Component } from 'react'
 import { Editor as TiptapEditor } from '@tiptap/react'
-import { TextSpanAnnotation, ConnectionAnnotation as ConnectionAnnotationType } from './types'
+import { TextSpanAnnotation, RecordType, ConnectionAnnotation as ConnectionAnnotationType } from './types'
 import { AnnotationPopup } from './AnnotationPopup'
 import ReferenceAnnotationContent from './ReferenceAnnotation'
+import { buildTextPositionMap } from './textPositions'
+import { locateAnnotationRanges } from './anchoring'
+import { ANALYSIS_TEXT_SERIALIZERS } from './Footnote'
 
 interface ConnectionAnnotationProps {
   annotation: TextSpanAnnotation
@@ -13,6 +16,8 @@ interface ConnectionAnnotationProps {
   onPopupOpen: (annotationId: string, position: { top: number; left: number }) => void
   onPopupClose: () => void
   onDeleteRecord: (annotationId: string, recordIndex: number) => void
+  onUpdateRecords: (annotationId: string, records: RecordType[]) => void
+  onCiteRecord: (annotationId: string, recordIndex: number) => void
 }
 
 interface ConnectionAnnotationState {
@@ -160,21 +165,29 @@ class ConnectionAnnotationComponent extends Component<ConnectionAnnotationProps,
     onPopupOpen(annotation.annotationId, position)
   }
 
-  // Get bounding rects for all mark elements with this annotation ID, relative to the annotation layer
-  // Returns an array of rects (one per span element in the DOM)
+  // Get bounding rects for each of this annotation's spans, relative to the annotation layer
+  // Spans are located through the text/position mapping, so a span split into several
+  // mark elements (across line breaks or overlapping marks) still yields a single rect
   private getMarkRects(): Array<{ left: number; right: number; top: number; bottom: number }> {
     const { editor, annotation, annotationLayerRef } = this.props
     if (!annotationLayerRef.current) return []
 
     const layerRect = annotationLayerRef.current.getBoundingClientRect()
-    const markElements = editor.view.dom.querySelectorAll(
-      `span[data-annotation-id="${annotation.annotationId}"]`
-    )
+    // Anchors are offsets into the analysis text, which leaves out footnote markers
+    const map = buildTextPositionMap(editor.state.doc, ANALYSIS_TEXT_SERIALIZERS)
 
     const rects: Array<{ left: number; right: number; top: number; bottom: number }> = []
 
-    markElements.forEach(el => {
-      const rect = el.getBoundingClientRect()
+    locateAnnotationRanges(map, annotation).forEach(range => {
+      if (!range) return
+
+      const start = editor.view.domAtPos(range.from)
+      const end = editor.view.domAtPos(range.to)
+      const domRange = document.createRange()
+      domRange.setStart(start.node, start.offset)
+      domRange.setEnd(end.node, end.offset)
+
+      const rect = domRange.getBoundingClientRect()
       rects.push({
         left: rect.left - layerRect.left,
         right: rect.right - layerRect.left,
@@ -204,11 +217,11 @@ class ConnectionAnnotationComponent extends Component<ConnectionAnnotationProps,
     // Don't render until DOM is ready (avoids flicker)
     if (!isReady) return null
 
-    // Get rects directly from DOM mark elements (survives text edits)
+    // One rect per connected span, located through the document positions
     const rects = this.getMarkRects()
     if (rects.length < 2) return null
 
-    // Use the first two mark elements found
+    // Use the first two spans
     const rect1 = rects[0]
     const rect2 = rects[1]
 
@@ -296,7 +309,7 @@ class ConnectionAnnotationComponent extends Component<ConnectionAnnotationProps,
   }
 
   private renderPopup(): React.ReactNode {
-    const { annotation, isPopupOpen, popupPosition, onPopupClose, onDeleteRecord } = this.props
+    const { annotation, isPopupOpen, popupPosition, onPopupClose, onDeleteRecord, onUpdateRecords, onCiteRecord } = this.props
 
     if (annotation.annotation.type !== 'connection') return null
 
@@ -314,6 +327,8 @@ class ConnectionAnnotationComponent extends Component<ConnectionAnnotationProps,
         <ReferenceAnnotationContent
           records={connectionAnnotation.records}
           onDeleteRecord={(recordIndex) => onDeleteRecord(annotation.annotationId, recordIndex)}
+          onUpdateRecords={(records) => onUpdateRecords(annotation.annotationId, records)}
+          onCiteRecord={(recordIndex) => onCiteRecord(annotation.annotationId, recordIndex)}
         />
       </AnnotationPopup>
     )
@@ -0,0 +1,290 @@
+import { Component, createRef } from 'react'
+import { NoteType, TextSpanAnnotation, Checkpoint } from './types'
+import { CheckpointManager, checkpointLabel } from './CheckpointManager'
+import { BibliographyFormat, collectRecords, formatBibliography, bibliographyFileName, bibliographyMimeType } from './bibliography'
+import { MarkdownExportMode, exportMarkdown } from './markdownExport'
+import { BackupCollisionMode, BackupError, createBackup, parseBackup, restoreBackup, backupFileName } from './backup'
+import { downloadFile } from './utils'
+
+interface ExportPanelProps {
+  notes: NoteType[]
+  annotations: Map<string, TextSpanAnnotation[]> // noteId -> annotations
+  currentNoteId: string | null
+  onRestore: (notes: NoteType[], annotations: Map<string, TextSpanAnnotation[]>) => void
+  onClose: () => void
+}
+
+interface ExportPanelState {
+  scope: string // 'note', 'all' or a checkpoint ID of the current note
+  format: BibliographyFormat
+  groupByDomain: boolean
+  markdownMode: MarkdownExportMode
+  checkpoints: Checkpoint[] // Of the current note, for the bibliography scope
+  collisionMode: BackupCollisionMode
+  backupStatus: string | null
+  backupErrors: string[]
+}
+
+const FORMAT_LABELS: Record<BibliographyFormat, string> = {
+  'bibtex': 'BibTeX',
+  'csl-json': 'CSL-JSON',
+  'ris': 'RIS'
+}
+
+class ExportPanel extends Component<ExportPanelProps, ExportPanelState> {
+  private fileInputRef = createRef<HTMLInputElement>()
+
+  constructor(props: ExportPanelProps) {
+    super(props)
+    this.state = {
+      scope: props.currentNoteId ? 'note' : 'all',
+      format: 'bibtex',
+      groupByDomain: false,
+      markdownMode: 'footnotes',
+      checkpoints: [],
+      collisionMode: 'merge',
+      backupStatus: null,
+      backupErrors: []
+    }
+  }
+
+  async componentDidMount() {
+    const { currentNoteId } = this.props
+    if (!currentNoteId) return
+
+    const checkpointManager = new CheckpointManager(currentNoteId)
+    await checkpointManager.ready
+    this.setState({ checkpoints: checkpointManager.getCheckpoints() })
+  }
+
+  private getCurrentNote(): NoteType | null {
+    const { notes, currentNoteId } = this.props
+    return notes.find(note => note.id === currentNoteId) || null
+  }
+
+  // Annotations in the chosen scope
+  private getScopedAnnotations(): TextSpanAnnotation[] {
+    const { annotations, currentNoteId } = this.props
+    const { scope } = this.state
+    const noteAnnotations = currentNoteId ? (annotations.get(currentNoteId) || []) : []
+
+    if (scope === 'all') {
+      return Array.from(annotations.values()).flat()
+    }
+    if (scope === 'note') {
+      return noteAnnotations
+    }
+
+    const checkpoint = this.state.checkpoints.find(c => c.checkpointId === scope)
+    if (!checkpoint) return []
+    const ids = new Set(checkpoint.annotationIds)
+    return noteAnnotations.filter(entry => ids.has(entry.annotationId))
+  }
+
+  private getExportName(): string {
+    const note = this.getCurrentNote()
+    return this.state.scope === 'all' || !note ? 'bibliography' : `${note.title || 'untitled'} bibliography`
+  }
+
+  private handleDownload = (output: string) => {
+    const { format } = this.state
+    downloadFile(bibliographyFileName(this.getExportName(), format), output, bibliographyMimeType(format))
+  }
+
+  private handleCopy = async (output: string) => {
+    try {
+      await navigator.clipboard.writeText(output)
+    } catch (error) {
+      console.error('Error copying export:', error)
+    }
+  }
+
+  private handleDownloadMarkdown = (note: NoteType) => {
+    const { annotations } = this.props
+    const result = exportMarkdown(note, annotations.get(note.id) || [], this.state.markdownMode)
+    downloadFile(result.fileName, result.markdown, 'text/markdown')
+    if (result.sidecar) {
+      downloadFile(result.sidecarFileName, result.sidecar, 'application/json')
+    }
+  }
+
+  private handleDownloadBackup = async () => {
+    const { notes, annotations } = this.props
+    const backup = await createBackup(notes, annotations)
+    downloadFile(backupFileName(), JSON.stringify(backup, null, 2), 'application/json')
+  }
+
+  private handleRestoreFile = async (file: File | undefined) => {
+    if (!file) return
+    const { notes, annotations, onRestore } = this.props
+
+    try {
+      const backup = parseBackup(await file.text())
+      const { notes: restoredNotes, annotations: restoredAnnotations, summary } = await restoreBackup(
+        backup,
+        { notes, annotations },
+        this.state.collisionMode
+      )
+      onRestore(restoredNotes, restoredAnnotations)
+
+      const parts = [
+        `${summary.added} added`,
+        summary.replaced > 0 ? `${summary.replaced} replaced` : null,
+        summary.duplicated > 0 ? `${summary.duplicated} kept as copies` : null,
+        summary.skipped > 0 ? `${summary.skipped} already up to date` : null
+      ].filter(Boolean)
+      const messagesNote = summary.messagesRestored ? '' : ' Conversations and checkpoints were not restored because saving them is turned off.'
+      this.setState({ backupStatus: `Restored notes: ${parts.join(', ')}.${messagesNote}`, backupErrors: [] })
+    } catch (error) {
+      console.error('Error restoring backup:', error)
+      this.setState({
+        backupStatus: error instanceof Error ? error.message : 'Could not restore the backup',
+        backupErrors: error instanceof BackupError ? error.errors : []
+      })
+    } finally {
+      if (this.fileInputRef.current) this.fileInputRef.current.value = ''
+    }
+  }
+
+  render() {
+    const { onClose } = this.props
+    const { scope, format, groupByDomain, markdownMode, collisionMode, backupStatus, backupErrors } = this.state
+    const currentNote = this.getCurrentNote()
+    const records = collectRecords(this.getScopedAnnotations())
+    const output = records.length > 0 ? formatBibliography(records, format, { groupByDomain }) : ''
+    const markdown = currentNote
+      ? exportMarkdown(currentNote, this.props.annotations.get(currentNote.id) || [], markdownMode).markdown
+      : ''
+
+    return (
+      <div className="settings-panel export-panel">
+        <div className="settings-panel-header">
+          <h2>Export</h2>
+          <button className="annotation-popup-close" onClick={onClose} aria-label="Close export">
+            ×
+          </button>
+        </div>
+
+        <section className="settings-section">
+          <h3>Bibliography</h3>
+          <label className="settings-field">
+            <span>Scope</span>
+            <select value={scope} onChange={(e) => this.setState({ scope: e.target.value })}>
+              {currentNote && <option value="note">Current note</option>}
+              <option value="all">All notes</option>
+              {this.state.checkpoints.map((checkpoint, index) => (
+                <option key={checkpoint.checkpointId} value={checkpoint.checkpointId}>
+                  {checkpointLabel(checkpoint, index + 1)} ({new Date(checkpoint.timestamp).toLocaleString()})
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="settings-field">
+            <span>Format</span>
+            <select value={format} onChange={(e) => this.setState({ format: e.target.value as BibliographyFormat })}>
+              {(Object.keys(FORMAT_LABELS) as BibliographyFormat[]).map(f => (
+                <option key={f} value={f}>{FORMAT_LABELS[f]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="settings-field settings-checkbox">
+            <input
+              type="checkbox"
+              checked={groupByDomain}
+              onChange={(e) => this.setState({ groupByDomain: e.target.checked })}
+            />
+            <span>Group by domain</span>
+          </label>
+
+          {records.length > 0 ? (
+            <>
+              <div className="export-summary">
+                {records.length} {records.length === 1 ? 'source' : 'sources'}
+              </div>
+              <textarea className="export-preview" readOnly value={output} rows={12} />
+              <div className="export-actions">
+                <button className="settings-secondary-button" onClick={() => this.handleCopy(output)}>
+                  Copy
+                </button>
+                <button className="settings-secondary-button" onClick={() => this.handleDownload(output)}>
+                  Download
+                </button>
+              </div>
+            </>
+          ) : (
+            <div className="export-summary">No sources in this scope yet</div>
+          )}
+        </section>
+
+        {currentNote && (
+          <section className="settings-section">
+            <h3>Markdown</h3>
+            <label className="settings-field">
+              <span>Annotations</span>
+              <select
+                value={markdownMode}
+                onChange={(e) => this.setState({ markdownMode: e.target.value as MarkdownExportMode })}
+              >
+                <option value="footnotes">As footnotes in the text</option>
+                <option value="sidecar">Clean Markdown + annotations JSON</option>
+              </select>
+            </label>
+            <textarea className="export-preview" readOnly value={markdown} rows={12} />
+            <div className="export-actions">
+              <button className="settings-secondary-button" onClick={() => this.handleCopy(markdown)}>
+                Copy
+              </button>
+              <button className="settings-secondary-button" onClick={() => this.handleDownloadMarkdown(currentNote)}>
+                Download
+              </button>
+            </div>
+          </section>
+        )}
+
+        <section className="settings-section">
+          <h3>Backup</h3>
+          <div className="settings-field">
+            <span>All notes, annotations, conversations and checkpoints</span>
+            <button className="settings-secondary-button" onClick={this.handleDownloadBackup}>
+              Download backup
+            </button>
+          </div>
+          <label className="settings-field">
+            <span>When a restored note already exists</span>
+            <select
+              value={collisionMode}
+              onChange={(e) => this.setState({ collisionMode: e.target.value as BackupCollisionMode })}
+            >
+              <option value="merge">Keep both</option>
+              <option value="replace">Replace it with the backup</option>
+            </select>
+          </label>
+          <div className="export-actions">
+            <input
+              ref={this.fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              hidden
+              onChange={(e) => this.handleRestoreFile(e.target.files?.[0])}
+            />
+            <button className="settings-secondary-button" onClick={() => this.fileInputRef.current?.click()}>
+              Restore from file…
+            </button>
+          </div>
+          {backupStatus && (
+            <div className="export-summary">
+              {backupStatus}
+              {backupErrors.length > 0 && (
+                <ul className="export-errors">
+                  {backupErrors.map((error, i) => <li key={i}>{error}</li>)}
+                </ul>
+              )}
+            </div>
+          )}
+        </section>
+      </div>
+    )
+  }
+}
+
+export default ExportPanel
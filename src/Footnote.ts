@@ -0,0 +1,64 @@
+import { Node, mergeAttributes, TextSerializer } from '@tiptap/core'
+
+// Footnote markers as they appear in the note's plain text, e.g. [^fn-k3j2h9]
+const FOOTNOTE_MARKER_PATTERN = /\[\^(fn-[a-z0-9]+)\]/g
+
+export function generateFootnoteId(): string {
+  return `fn-${Math.random().toString(36).slice(2, 9)}`
+}
+
+// Footnote IDs in the order their markers appear in the plain text
+export function footnoteIdsInOrder(content: string): string[] {
+  return Array.from(content.matchAll(FOOTNOTE_MARKER_PATTERN), match => match[1])
+}
+
+// Markers are bookkeeping, not writing: the text that's analyzed (and that spans and word
+// counts are taken from) leaves them out. Saved content and Markdown export keep them.
+export const ANALYSIS_TEXT_SERIALIZERS: Record<string, TextSerializer> = {
+  footnoteReference: () => ''
+}
+
+// Saved content as the analysis sees it
+export function stripFootnoteMarkers(content: string): string {
+  return content.replace(FOOTNOTE_MARKER_PATTERN, '')
+}
+
+// Turn plain-text markers into footnote nodes when loading content into the editor
+export function convertFootnoteMarkers(html: string): string {
+  return html.replace(FOOTNOTE_MARKER_PATTERN, '<sup data-footnote-id="$1"></sup>')
+}
+
+// Inline footnote reference. The visible number comes from a CSS counter, so footnotes
+// renumber themselves in document order; the plain text keeps the stable id.
+export const FootnoteReference = Node.create({
+  name: 'footnoteReference',
+  group: 'inline',
+  inline: true,
+  atom: true,
+  selectable: true,
+
+  addAttributes() {
+    return {
+      footnoteId: {
+        default: null as string | null,
+        parseHTML: (element: HTMLElement) => element.getAttribute('data-footnote-id'),
+        renderHTML: (attributes: { footnoteId: string | null }) => {
+          if (!attributes.footnoteId) return {}
+          return { 'data-footnote-id': attributes.footnoteId }
+        },
+      },
+    }
+  },
+
+  parseHTML() {
+    return [{ tag: 'sup[data-footnote-id]' }]
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['sup', mergeAttributes(HTMLAttributes, { class: 'footnote-ref' })]
+  },
+
+  renderText({ node }) {
+    return `[^${node.attrs.footnoteId}]`
+  },
+})
@@ -0,0 +1,26 @@
+import { Footnote } from './types'
+import { formatCitation } from './citations'
+
+interface FootnotesSectionProps {
+  footnotes: Footnote[] // In document order - numbering follows the array
+}
+
+// Footnotes for the citation markers in the note, numbered like the markers themselves
+const FootnotesSection = (props: FootnotesSectionProps) => {
+  const { footnotes } = props
+  if (footnotes.length === 0) return null
+
+  return (
+    <div className="footnotes-section">
+      <ol className="footnotes-list">
+        {footnotes.map(footnote => (
+          <li key={footnote.footnoteId} className="footnote-item">
+            {formatCitation(footnote.record)}
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+}
+
+export default FootnotesSection
@@ -1,5 +1,7 @@
 import Together from "together-ai";
 import OpenAI from 'openai'
+import { jsonrepair } from 'jsonrepair'
+import { getSettings, subscribeSettings, Settings, ProviderName } from './settings'
 
 export interface ToolCall {
   id: string
@@ -21,6 +23,7 @@ export interface Message {
   role: string
   content?: string
   tool_calls?: ToolCall[]
+  compactedCount?: number // Set on compaction summaries: how many original messages this replaces
 }
 
 export interface LLMOptions {
@@ -32,27 +35,107 @@ export interface LLMOptions {
   [key: string]: any // Allow additional LLM-specific options
 }
 
-// Configuration: choose API provider ('together', 'kimi', or 'openrouter')
+// Provider, models, keys and local server options come from the runtime settings (see settings.ts)
 // NOTE: 'kimi' requires a backend proxy due to CORS restrictions - direct browser access is blocked
 // Use 'together' or 'openrouter' for direct browser access without a proxy
-const API_PROVIDER = (import.meta.env.VITE_API_PROVIDER as 'together' | 'kimi' | 'openrouter') || 'together'
-
-// Model names differ between providers
-const MODEL_NAMES = {
-  together: 'moonshotai/Kimi-K2-Instruct-0905',
-  kimi: 'kimi-k2-0905-preview',
-  openrouter: 'moonshotai/kimi-k2-0905'
+// 'local' targets any OpenAI-compatible server (llama.cpp, Ollama, vLLM, LM Studio...)
+// localToolsMode: 'native' (server supports `tools`), 'prompt' (always use prompted JSON tool calls)
+// or 'auto' (try native, fall back to prompted JSON the first time the server rejects `tools`)
+
+// Token counts reported by the provider for a single call
+export interface TokenUsage {
+  prompt_tokens: number
+  completion_tokens: number
 }
 
 interface LLMResponse {
   content: string | null
   tool_calls?: ToolCall[]
   finish_reason?: string | null
+  usage?: TokenUsage
+  provider?: ProviderName // Which provider in the fallback chain answered
 }
 
+// Events yielded by streamLLM - content arrives as deltas, tool calls only once fully assembled
+export type LLMStreamEvent =
+  | { type: 'content'; delta: string }
+  | { type: 'tool_call'; toolCall: ToolCall }
+  | { type: 'usage'; usage: TokenUsage; provider?: ProviderName }
+  | { type: 'finish'; finish_reason: string | null }
+
 // Abstract LLM Service
 export abstract class LLMService {
   abstract callLLM(messages: Message[], options?: LLMOptions): Promise<LLMResponse>
+  abstract streamLLM(messages: Message[], options?: LLMOptions): AsyncIterable<LLMStreamEvent>
+}
+
+// Normalize a provider usage block (missing fields count as zero)
+function toTokenUsage(usage: any): TokenUsage | undefined {
+  if (!usage) return undefined
+  return {
+    prompt_tokens: usage.prompt_tokens || 0,
+    completion_tokens: usage.completion_tokens || 0
+  }
+}
+
+// Assemble OpenAI-style streamed chunks into content deltas and complete tool calls.
+// Tool call fragments are keyed by index; a tool call is complete once the stream moves
+// on to the next index (providers stream them sequentially) or the stream ends.
+async function* assembleStream(chunks: AsyncIterable<any>): AsyncGenerator<LLMStreamEvent> {
+  const pending = new Map<number, ToolCall>()
+  let currentIndex: number | null = null
+  let finishReason: string | null = null
+  let usage: TokenUsage | undefined
+
+  for await (const chunk of chunks) {
+    // Usage arrives on the last chunk (often one with no choices at all)
+    if (chunk.usage) {
+      usage = toTokenUsage(chunk.usage)
+    }
+
+    const choice = chunk.choices?.[0]
+    if (!choice) continue
+
+    const delta = choice.delta || {}
+    if (delta.content) {
+      yield { type: 'content', delta: delta.content }
+    }
+
+    for (const fragment of delta.tool_calls || []) {
+      const index: number = fragment.index ?? 0
+
+      // A new index means the previous tool call has received all its arguments
+      if (currentIndex !== null && index !== currentIndex && pending.has(currentIndex)) {
+        yield { type: 'tool_call', toolCall: pending.get(currentIndex)! }
+        pending.delete(currentIndex)
+      }
+      currentIndex = index
+
+      let toolCall = pending.get(index)
+      if (!toolCall) {
+        toolCall = { id: '', type: 'function', function: { name: '', arguments: '' } }
+        pending.set(index, toolCall)
+      }
+      if (fragment.id) toolCall.id = fragment.id
+      if (fragment.function?.name) toolCall.function.name = fragment.function.name
+      if (fragment.function?.arguments) toolCall.function.arguments += fragment.function.arguments
+    }
+
+    if (choice.finish_reason) {
+      finishReason = choice.finish_reason
+    }
+  }
+
+  // Flush whatever is still being assembled when the stream ends
+  for (const toolCall of pending.values()) {
+    yield { type: 'tool_call', toolCall }
+  }
+
+  if (usage) {
+    yield { type: 'usage', usage }
+  }
+
+  yield { type: 'finish', finish_reason: finishReason }
 }
 
 // Together.ai implementation
@@ -62,11 +145,12 @@ class TogetherLLMService extends LLMService {
   constructor() {
     super()
     this.client = new Together({
-      apiKey: (import.meta as any).env?.VITE_TOGETHER_API_KEY || '',
+      apiKey: getSettings().apiKeys.together,
+      maxRetries: 0, // Retries are handled by RetryingLLMService
     })
   }
 
-  async callLLM(messages: Message[], options: LLMOptions = {}): Promise<LLMResponse> {
+  private buildParams(messages: Message[], options: LLMOptions) {
     const {
       temperature = 0.6,
       response_format,
@@ -76,15 +160,25 @@ class TogetherLLMService extends LLMService {
       ...restOptions
     } = options
 
-    const response = await this.client.chat.completions.create({
-      model: MODEL_NAMES.together,
+    const params = {
+      model: getSettings().models.together,
       messages: messages as any,
       temperature,
       ...(response_format && { response_format }),
       reasoning_effort,
       ...(tools && { tools }),
-      stream: false,
       ...restOptions
+    }
+
+    return { params, tools, signal }
+  }
+
+  async callLLM(messages: Message[], options: LLMOptions = {}): Promise<LLMResponse> {
+    const { params, tools, signal } = this.buildParams(messages, options)
+
+    const response = await this.client.chat.completions.create({
+      ...params,
+      stream: false
     }, { signal })
 
     const choice = response.choices[0]
@@ -92,21 +186,38 @@ class TogetherLLMService extends LLMService {
     const content = message?.content || null
     const tool_calls = message?.tool_calls as ToolCall[] | undefined
     const finish_reason = choice?.finish_reason || null
+    const usage = toTokenUsage(response.usage)
 
     // If there are tool calls, return them directly
     if (tool_calls && tool_calls.length > 0) {
-      return { content, tool_calls, finish_reason }
+      return { content, tool_calls, finish_reason, usage }
     }
 
     // If tools are provided, don't parse as JSON - LLM may return plain text
     if (tools && tools.length > 0) {
-      return { content, tool_calls, finish_reason }
+      return { content, tool_calls, finish_reason, usage }
+    }
+
+    // Plain completion without tools (e.g. history compaction)
+    if (content) {
+      return { content, tool_calls, finish_reason, usage }
     }
 
     console.error('Empty response from Together.ai API')
     console.error('Full response object:', JSON.stringify(response, null, 2))
     throw new Error('Empty response from API')
   }
+
+  async *streamLLM(messages: Message[], options: LLMOptions = {}): AsyncGenerator<LLMStreamEvent> {
+    const { params, signal } = this.buildParams(messages, options)
+
+    const stream = await this.client.chat.completions.create({
+      ...params,
+      stream: true // Together reports usage on the final chunk by default
+    }, { signal })
+
+    yield* assembleStream(stream)
+  }
 }
 
 // Kimi/Moonshot implementation
@@ -116,13 +227,14 @@ class KimiLLMService extends LLMService {
   constructor() {
     super()
     this.client = new OpenAI({
-      apiKey: (import.meta as any).env?.VITE_MOONSHOT_API_KEY || '',
+      apiKey: getSettings().apiKeys.kimi,
       baseURL: 'https://api.moonshot.ai/v1',
       dangerouslyAllowBrowser: true,
+      maxRetries: 0, // Retries are handled by RetryingLLMService
     })
   }
 
-  async callLLM(messages: Message[], options: LLMOptions = {}): Promise<LLMResponse> {
+  private buildParams(messages: Message[], options: LLMOptions) {
     const {
       temperature = 0.6,
       response_format,
@@ -132,14 +244,24 @@ class KimiLLMService extends LLMService {
       ...restOptions
     } = options
 
-    const response = await this.client.chat.completions.create({
-      model: MODEL_NAMES.kimi,
+    const params = {
+      model: getSettings().models.kimi,
       messages: messages as any,
       temperature,
       ...(response_format && { response_format }),
       ...(tools && { tools }),
-      stream: false,
       ...restOptions
+    }
+
+    return { params, tools, signal }
+  }
+
+  async callLLM(messages: Message[], options: LLMOptions = {}): Promise<LLMResponse> {
+    const { params, tools, signal } = this.buildParams(messages, options)
+
+    const response = await this.client.chat.completions.create({
+      ...params,
+      stream: false
     }, { signal })
 
     const choice = response.choices[0]
@@ -147,18 +269,31 @@ class KimiLLMService extends LLMService {
     const content = message?.content || null
     const tool_calls = message?.tool_calls as ToolCall[] | undefined
     const finish_reason = choice?.finish_reason || null
+    const usage = toTokenUsage(response.usage)
 
     // If there are tool calls, return them directly
     if (tool_calls && tool_calls.length > 0) {
-      return { content, tool_calls, finish_reason }
+      return { content, tool_calls, finish_reason, usage }
     }
 
     // If tools are provided, don't parse as JSON - LLM may return plain text
     if (tools && tools.length > 0) {
-      return { content, tool_calls, finish_reason }
+      return { content, tool_calls, finish_reason, usage }
     }
 
-    return { content: null, tool_calls, finish_reason }
+    return { content, tool_calls, finish_reason, usage }
+  }
+
+  async *streamLLM(messages: Message[], options: LLMOptions = {}): AsyncGenerator<LLMStreamEvent> {
+    const { params, signal } = this.buildParams(messages, options)
+
+    const stream = await this.client.chat.completions.create({
+      ...params,
+      stream: true,
+      stream_options: { include_usage: true }
+    }, { signal })
+
+    yield* assembleStream(stream)
   }
 }
 
@@ -169,9 +304,10 @@ class OpenRouterLLMService extends LLMService {
   constructor() {
     super()
     this.client = new OpenAI({
-      apiKey: (import.meta as any).env?.VITE_OPENROUTER_API_KEY || '',
+      apiKey: getSettings().apiKeys.openrouter,
       baseURL: 'https://openrouter.ai/api/v1',
       dangerouslyAllowBrowser: true,
+      maxRetries: 0, // Retries are handled by RetryingLLMService
       defaultHeaders: {
         'HTTP-Referer': window.location.origin,
         'X-Title': 'Half-Formed Thought'
@@ -179,7 +315,7 @@ class OpenRouterLLMService extends LLMService {
     })
   }
 
-  async callLLM(messages: Message[], options: LLMOptions = {}): Promise<LLMResponse> {
+  private buildParams(messages: Message[], options: LLMOptions) {
     const {
       temperature = 0.6,
       response_format = { type: 'json_object' },
@@ -188,14 +324,24 @@ class OpenRouterLLMService extends LLMService {
       ...restOptions
     } = options
 
-    const response = await this.client.chat.completions.create({
-      model: MODEL_NAMES.openrouter,
+    const params = {
+      model: getSettings().models.openrouter,
       messages: messages as any,
       temperature,
       response_format: response_format as any,
       ...(tools && { tools }),
-      stream: false,
       ...restOptions
+    }
+
+    return { params, tools, signal }
+  }
+
+  async callLLM(messages: Message[], options: LLMOptions = {}): Promise<LLMResponse> {
+    const { params, tools, signal } = this.buildParams(messages, options)
+
+    const response = await this.client.chat.completions.create({
+      ...params,
+      stream: false
     } as any, { signal })
 
     const choice = response.choices[0]
@@ -203,32 +349,490 @@ class OpenRouterLLMService extends LLMService {
     const content = message?.content || null
     const tool_calls = message?.tool_calls as ToolCall[] | undefined
     const finish_reason = choice?.finish_reason || null
+    const usage = toTokenUsage(response.usage)
 
     // If there are tool calls, return them directly
     if (tool_calls && tool_calls.length > 0) {
-      return { content, tool_calls, finish_reason }
+      return { content, tool_calls, finish_reason, usage }
     }
 
     // If tools are provided, don't parse as JSON - LLM may return plain text
     if (tools && tools.length > 0) {
-      return { content, tool_calls, finish_reason }
+      return { content, tool_calls, finish_reason, usage }
     }
 
-    return { content: null, tool_calls, finish_reason }
+    return { content, tool_calls, finish_reason, usage }
+  }
+
+  async *streamLLM(messages: Message[], options: LLMOptions = {}): AsyncGenerator<LLMStreamEvent> {
+    const { params, signal } = this.buildParams(messages, options)
+
+    const stream = await this.client.chat.completions.create({
+      ...params,
+      stream: true,
+      stream_options: { include_usage: true }
+    } as any, { signal }) as unknown as AsyncIterable<any>
+
+    yield* assembleStream(stream)
   }
 }
 
-// Factory function to create the appropriate LLM service
-function createLLMService(): LLMService {
-  if (API_PROVIDER === 'kimi') {
+// Instructions appended to the system prompt when the server can't take `tools` natively
+const PROMPTED_TOOLS_INSTRUCTIONS = `
+You can call tools. The available tools and their JSON parameter schemas are:
+
+{tools}
+
+Respond ONLY with a single JSON object of this shape (no prose, no markdown fences):
+{"content": "optional short remark", "tool_calls": [{"name": "<tool name>", "arguments": { ... }}]}
+
+Call as many tools as you need in one response. When you have nothing more to do, respond with {"tool_calls": []}.
+`.trim()
+
+// Generic OpenAI-compatible implementation (local models, self-hosted servers)
+class OpenAICompatibleLLMService extends LLMService {
+  private client: OpenAI
+  private toolsMode: Settings['localToolsMode']
+  private supportsTools: boolean
+
+  constructor() {
+    super()
+    this.client = new OpenAI({
+      apiKey: getSettings().apiKeys.local || 'not-needed', // Most local servers ignore the key
+      baseURL: getSettings().localBaseUrl,
+      dangerouslyAllowBrowser: true,
+      maxRetries: 0, // Retries are handled by RetryingLLMService
+    })
+    this.toolsMode = getSettings().localToolsMode
+    this.supportsTools = this.toolsMode !== 'prompt'
+  }
+
+  private buildParams(messages: Message[], options: LLMOptions) {
+    const {
+      temperature = 0.6,
+      response_format,
+      reasoning_effort, // Not part of the generic chat completions API, ignore
+      tools,
+      signal,
+      ...restOptions
+    } = options
+
+    const params = {
+      model: getSettings().models.local,
+      messages: messages as any,
+      temperature,
+      ...(response_format && { response_format }),
+      ...(tools && { tools }),
+      ...restOptions
+    }
+
+    return { params, tools, signal }
+  }
+
+  // Whether an API error means the server doesn't understand the `tools` parameter
+  private isToolsUnsupportedError(error: any): boolean {
+    if (this.toolsMode !== 'auto') return false
+    const status = error?.status
+    const message = String(error?.message || '').toLowerCase()
+    return (status === 400 || status === 404 || status === 422 || status === 500 || status === 501) &&
+      (message.includes('tool') || message.includes('function'))
+  }
+
+  private switchToPromptedTools(error: any) {
+    console.warn('Local server rejected `tools`, falling back to prompted JSON tool calls:', error?.message)
+    this.supportsTools = false
+  }
+
+  async callLLM(messages: Message[], options: LLMOptions = {}): Promise<LLMResponse> {
+    if (options.tools && options.tools.length > 0 && !this.supportsTools) {
+      return this.callWithPromptedTools(messages, options)
+    }
+
+    const { params, signal } = this.buildParams(messages, options)
+
+    let response
+    try {
+      response = await this.client.chat.completions.create({
+        ...params,
+        stream: false
+      }, { signal })
+    } catch (error) {
+      if (options.tools && this.isToolsUnsupportedError(error)) {
+        this.switchToPromptedTools(error)
+        return this.callWithPromptedTools(messages, options)
+      }
+      throw error
+    }
+
+    const choice = response.choices[0]
+    const message = choice?.message
+    const content = message?.content || null
+    const tool_calls = message?.tool_calls as ToolCall[] | undefined
+    const finish_reason = choice?.finish_reason || null
+    const usage = toTokenUsage(response.usage)
+
+    return { content, tool_calls, finish_reason, usage }
+  }
+
+  async *streamLLM(messages: Message[], options: LLMOptions = {}): AsyncGenerator<LLMStreamEvent> {
+    // Prompted tool calls have to be parsed from the complete response, so don't stream them
+    if (options.tools && options.tools.length > 0 && !this.supportsTools) {
+      yield* this.responseToEvents(await this.callWithPromptedTools(messages, options))
+      return
+    }
+
+    const { params, signal } = this.buildParams(messages, options)
+
+    let stream
+    try {
+      stream = await this.client.chat.completions.create({
+        ...params,
+        stream: true,
+        stream_options: { include_usage: true }
+      }, { signal })
+    } catch (error) {
+      if (options.tools && this.isToolsUnsupportedError(error)) {
+        this.switchToPromptedTools(error)
+        yield* this.responseToEvents(await this.callWithPromptedTools(messages, options))
+        return
+      }
+      throw error
+    }
+
+    yield* assembleStream(stream)
+  }
+
+  private async *responseToEvents(response: LLMResponse): AsyncGenerator<LLMStreamEvent> {
+    if (response.content) {
+      yield { type: 'content', delta: response.content }
+    }
+    for (const toolCall of response.tool_calls || []) {
+      yield { type: 'tool_call', toolCall }
+    }
+    if (response.usage) {
+      yield { type: 'usage', usage: response.usage }
+    }
+    yield { type: 'finish', finish_reason: response.finish_reason || null }
+  }
+
+  // Describe the tools in the system prompt and parse tool calls out of the JSON reply
+  private async callWithPromptedTools(messages: Message[], options: LLMOptions): Promise<LLMResponse> {
+    const { tools, ...restOptions } = options
+    const toolDescriptions = tools!
+      .map(tool => JSON.stringify({
+        name: tool.function.name,
+        description: tool.function.description,
+        parameters: tool.function.parameters
+      }))
+      .join('\n')
+    const instructions = PROMPTED_TOOLS_INSTRUCTIONS.replace('{tools}', toolDescriptions)
+
+    const { params, signal } = this.buildParams(this.toPromptedMessages(messages, instructions), restOptions)
+
+    const response = await this.client.chat.completions.create({
+      ...params,
+      stream: false
+    }, { signal })
+
+    const choice = response.choices[0]
+    const rawContent = choice?.message?.content || ''
+
+    const parsed = this.parsePromptedToolCalls(rawContent)
+    if (!parsed) {
+      // Not JSON at all - treat it as a plain final answer
+      return { content: rawContent || null, finish_reason: choice?.finish_reason || 'stop', usage: toTokenUsage(response.usage) }
+    }
+
+    return {
+      content: parsed.content,
+      tool_calls: parsed.tool_calls.length > 0 ? parsed.tool_calls : undefined,
+      finish_reason: parsed.tool_calls.length > 0 ? 'tool_calls' : 'stop',
+      usage: toTokenUsage(response.usage)
+    }
+  }
+
+  // Rewrite native tool-call history into plain messages the server can accept
+  private toPromptedMessages(messages: Message[], instructions: string): Message[] {
+    const result: Message[] = []
+    let hasSystem = false
+
+    for (const message of messages) {
+      if (message.role === 'system') {
+        result.push({ role: 'system', content: `${message.content || ''}\n\n${instructions}` })
+        hasSystem = true
+      } else if (message.role === 'assistant' && message.tool_calls) {
+        const toolCalls = message.tool_calls.map(toolCall => ({
+          name: toolCall.function.name,
+          arguments: this.parseArguments(toolCall.function.arguments)
+        }))
+        result.push({
+          role: 'assistant',
+          content: JSON.stringify({ content: message.content || undefined, tool_calls: toolCalls })
+        })
+      } else if (message.role === 'tool') {
+        const toolMessage = message as unknown as ToolResponse
+        result.push({ role: 'user', content: `Result of ${toolMessage.name}:\n${toolMessage.content}` })
+      } else {
+        result.push({ role: message.role, content: message.content })
+      }
+    }
+
+    if (!hasSystem) {
+      result.unshift({ role: 'system', content: instructions })
+    }
+
+    return result
+  }
+
+  private parseArguments(args: string): any {
+    try {
+      return JSON.parse(args || '{}')
+    } catch {
+      return args
+    }
+  }
+
+  // Local models often wrap JSON in fences or truncate it - repair before parsing
+  private parsePromptedToolCalls(rawContent: string): { content: string | null; tool_calls: ToolCall[] } | null {
+    const trimmed = rawContent.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '')
+    if (!trimmed) return null
+
+    let parsed: any
+    try {
+      parsed = JSON.parse(jsonrepair(trimmed))
+    } catch (error) {
+      console.warn('Could not parse prompted tool calls:', error)
+      return null
+    }
+
+    if (Array.isArray(parsed)) {
+      parsed = { tool_calls: parsed }
+    }
+    if (!parsed || typeof parsed !== 'object' || !Array.isArray(parsed.tool_calls)) {
+      return null
+    }
+
+    const tool_calls: ToolCall[] = parsed.tool_calls
+      .filter((call: any) => call && typeof call.name === 'string')
+      .map((call: any, index: number) => ({
+        id: `call-${Date.now()}-${index}`,
+        type: 'function',
+        function: {
+          name: call.name,
+          arguments: typeof call.arguments === 'string' ? call.arguments : JSON.stringify(call.arguments || {})
+        }
+      }))
+
+    return { content: typeof parsed.content === 'string' ? parsed.content : null, tool_calls }
+  }
+}
+
+// Whether an error was caused by the request being cancelled
+export function isAbortError(error: any, signal?: AbortSignal): boolean {
+  if (signal?.aborted) return true
+  return error?.name === 'AbortError' ||
+    error instanceof OpenAI.APIUserAbortError ||
+    error instanceof Together.APIUserAbortError
+}
+
+// Rate limits, server errors and network failures are worth retrying; bad requests and auth errors aren't
+function isRetryableError(error: any): boolean {
+  const status = error?.status
+  if (typeof status === 'number') {
+    return status === 408 || status === 409 || status === 429 || status >= 500
+  }
+  // No status means the request never got a response (connection reset, DNS, timeout...)
+  return error instanceof OpenAI.APIConnectionError ||
+    error instanceof Together.APIConnectionError ||
+    isFetchFailure(error)
+}
+
+// fetch() rejects with a TypeError when the network fails; the message differs by browser.
+// Other TypeErrors are bugs, and retrying them would only hide them.
+const FETCH_FAILURE_MESSAGES = /failed to fetch|fetch failed|networkerror|load failed|network request failed/i
+
+function isFetchFailure(error: any): boolean {
+  return error?.name === 'TypeError' && FETCH_FAILURE_MESSAGES.test(error.message || '')
+}
+
+// Read Retry-After (seconds or HTTP date) or retry-after-ms from an API error, in ms
+function getRetryAfter(error: any): number | null {
+  const headers = error?.headers
+  if (!headers) return null
+  const read = (name: string): string | null =>
+    typeof headers.get === 'function' ? headers.get(name) : headers[name] ?? null
+
+  const retryAfterMs = read('retry-after-ms')
+  if (retryAfterMs && !isNaN(Number(retryAfterMs))) {
+    return Number(retryAfterMs)
+  }
+
+  const retryAfter = read('retry-after')
+  if (!retryAfter) return null
+  if (!isNaN(Number(retryAfter))) {
+    return Number(retryAfter) * 1000
+  }
+  const date = Date.parse(retryAfter)
+  return isNaN(date) ? null : Math.max(0, date - Date.now())
+}
+
+// Longest wait before a retry. A provider that asks for longer (Retry-After) is given up on.
+const MAX_RETRY_DELAY = 30000
+
+// Exponential backoff with jitter (50-100% of the exponential delay), capped at MAX_RETRY_DELAY
+function getBackoffDelay(attempt: number, baseDelay: number): number {
+  const exponential = Math.min(MAX_RETRY_DELAY, baseDelay * Math.pow(2, attempt))
+  return exponential / 2 + Math.random() * exponential / 2
+}
+
+// Sleep that rejects as soon as the signal aborts
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const abortError = () => {
+      const error = new Error('Request was aborted')
+      error.name = 'AbortError'
+      return error
+    }
+    if (signal?.aborted) {
+      reject(abortError())
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timeout)
+      reject(abortError())
+    }
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+// Human-readable summary of an LLM error (shown in the note's error state)
+export function describeLLMError(error: any): string {
+  const status = error?.status
+  if (status === 401 || status === 403) return 'Authentication failed - check the API key in settings'
+  if (status === 429) return 'Rate limited by the provider'
+  if (typeof status === 'number' && status >= 500) return `Provider error (${status})`
+  if (isRetryableError(error)) return 'Network error - could not reach the provider'
+  return error instanceof Error ? error.message : 'Unknown error'
+}
+
+// Wraps an ordered chain of providers: each one is retried with backoff, then the next is tried
+class RetryingLLMService extends LLMService {
+  private providers: Array<{ name: ProviderName; service: LLMService }>
+
+  constructor(providers: Array<{ name: ProviderName; service: LLMService }>) {
+    super()
+    this.providers = providers
+  }
+
+  // Wait before the next attempt - returns false once retries for this provider are exhausted,
+  // or if it asks for a longer wait than we'd make (the next provider is tried instead)
+  private async backoff(error: any, attempt: number, providerName: ProviderName, signal?: AbortSignal): Promise<boolean> {
+    const { maxRetries, retryBaseDelay } = getSettings()
+    if (!isRetryableError(error) || attempt >= maxRetries) {
+      return false
+    }
+
+    const retryAfter = getRetryAfter(error)
+    if (retryAfter !== null && retryAfter > MAX_RETRY_DELAY) {
+      console.warn(`${providerName} asked to wait ${Math.round(retryAfter / 1000)}s before retrying, giving up on it`)
+      return false
+    }
+
+    const delay = retryAfter ?? getBackoffDelay(attempt, retryBaseDelay)
+    console.warn(`${providerName} request failed, retrying in ${Math.round(delay)}ms (${attempt + 1}/${maxRetries}):`, error?.message)
+    await sleep(delay, signal)
+    return true
+  }
+
+  async callLLM(messages: Message[], options: LLMOptions = {}): Promise<LLMResponse> {
+    let lastError: any = null
+
+    for (const { name, service } of this.providers) {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          const response = await service.callLLM(messages, options)
+          return { ...response, provider: name }
+        } catch (error) {
+          if (isAbortError(error, options.signal)) throw error
+          lastError = error
+          if (!(await this.backoff(error, attempt, name, options.signal))) break
+        }
+      }
+      console.warn(`${name} failed, trying next provider:`, lastError?.message)
+    }
+
+    throw lastError
+  }
+
+  async *streamLLM(messages: Message[], options: LLMOptions = {}): AsyncGenerator<LLMStreamEvent> {
+    let lastError: any = null
+
+    for (const { name, service } of this.providers) {
+      for (let attempt = 0; ; attempt++) {
+        // Only retry while nothing has been yielded - once tool calls have been
+        // handed to the caller they can't be replayed
+        let yielded = false
+        try {
+          for await (const event of service.streamLLM(messages, options)) {
+            yielded = true
+            yield event.type === 'usage' ? { ...event, provider: name } : event
+          }
+          return
+        } catch (error) {
+          if (yielded || isAbortError(error, options.signal)) throw error
+          lastError = error
+          if (!(await this.backoff(error, attempt, name, options.signal))) break
+        }
+      }
+      console.warn(`${name} failed, trying next provider:`, lastError?.message)
+    }
+
+    throw lastError
+  }
+}
+
+// Factory function to create the service for a single provider
+function createProviderService(provider: ProviderName): LLMService {
+  if (provider === 'kimi') {
     return new KimiLLMService()
-  } else if (API_PROVIDER === 'openrouter') {
+  } else if (provider === 'openrouter') {
     return new OpenRouterLLMService()
+  } else if (provider === 'local') {
+    return new OpenAICompatibleLLMService()
   } else {
     return new TogetherLLMService()
   }
 }
 
-// Singleton instance
-export const llmService = createLLMService()
+// Factory function to create the appropriate LLM service (main provider + fallbacks)
+function createLLMService(): LLMService {
+  const { provider, fallbackProviders } = getSettings()
+  const chain = [provider, ...fallbackProviders.filter(p => p !== provider)]
+  return new RetryingLLMService(chain.map(name => ({ name, service: createProviderService(name) })))
+}
 
+// Settings that are baked into a client when it is constructed
+function connectionChanged(settings: Settings, previous: Settings): boolean {
+  return settings.provider !== previous.provider ||
+    settings.fallbackProviders !== previous.fallbackProviders ||
+    settings.apiKeys !== previous.apiKeys ||
+    settings.localBaseUrl !== previous.localBaseUrl ||
+    settings.localToolsMode !== previous.localToolsMode
+}
+
+// Shared instance, recreated whenever the provider or its connection settings change
+let llmService = createLLMService()
+
+subscribeSettings((settings, previous) => {
+  if (connectionChanged(settings, previous)) {
+    llmService = createLLMService()
+  }
+})
+
+export function getLLMService(): LLMService {
+  return llmService
+}
@@ -1,15 +1,124 @@
+import React from 'react'
+import { moveItem } from './utils'
+
 interface ListAnnotationProps {
   extensions: string[]
   onDeleteExtension?: (extensionIndex: number) => void
+  onUpdateExtensions?: (extensions: string[]) => void // Enables editing, adding and reordering
+  onInsertExtensions?: (extensionIndices: number[]) => void // Writes entries into the note
 }
 
 const ListAnnotation = (props: ListAnnotationProps) => {
-  const { extensions, onDeleteExtension } = props
+  const { extensions, onDeleteExtension, onUpdateExtensions, onInsertExtensions } = props
+  const [editingIndex, setEditingIndex] = React.useState<number | null>(null) // extensions.length = new entry
+  const [draft, setDraft] = React.useState('')
+  const [dragIndex, setDragIndex] = React.useState<number | null>(null)
+
+  const startEditing = (index: number) => {
+    setDraft(extensions[index] || '')
+    setEditingIndex(index)
+  }
+
+  const handleSave = () => {
+    if (editingIndex === null || !onUpdateExtensions) return
+    const extension = draft.trim()
+    if (!extension) return
+
+    const updated = editingIndex < extensions.length
+      ? extensions.map((e, i) => (i === editingIndex ? extension : e))
+      : [...extensions, extension]
+    onUpdateExtensions(updated)
+    setEditingIndex(null)
+  }
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null && dragIndex !== index && onUpdateExtensions) {
+      onUpdateExtensions(moveItem(extensions, dragIndex, index))
+    }
+    setDragIndex(null)
+  }
+
+  const renderEditor = () => (
+    <div className="annotation-item annotation-item-editing" key="editor">
+      <input
+        autoFocus
+        className="annotation-edit-field"
+        placeholder="List entry"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') handleSave()
+          if (e.key === 'Escape') setEditingIndex(null)
+        }}
+      />
+      <div className="annotation-edit-actions">
+        <button onClick={() => setEditingIndex(null)}>Cancel</button>
+        <button onClick={handleSave}>Save</button>
+      </div>
+    </div>
+  )
 
   return (
     <>
-      {extensions.map((extension, index) => (
-        <div key={index} className="annotation-item">
+      {extensions.map((extension, index) => editingIndex === index ? renderEditor() : (
+        <div
+          key={index}
+          className={`annotation-item ${dragIndex === index ? 'dragging' : ''}`}
+          draggable={!!onUpdateExtensions && editingIndex === null}
+          onDragStart={() => setDragIndex(index)}
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={() => handleDrop(index)}
+          onDragEnd={() => setDragIndex(null)}
+        >
+          {onInsertExtensions && (
+            <button
+              className="annotation-item-insert-button"
+              onClick={(e) => {
+                e.stopPropagation()
+                onInsertExtensions([index])
+              }}
+              aria-label="Insert into note"
+              title="Insert into note"
+            >
+              <svg
+                width="12"
+                height="12"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              >
+                <line x1="12" y1="5" x2="12" y2="19"></line>
+                <line x1="5" y1="12" x2="19" y2="12"></line>
+              </svg>
+            </button>
+          )}
+          {onUpdateExtensions && (
+            <button
+              className="annotation-item-edit-button"
+              onClick={(e) => {
+                e.stopPropagation()
+                startEditing(index)
+              }}
+              aria-label="Edit extension"
+            >
+              <svg
+                width="12"
+                height="12"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              >
+                <path d="M12 20h9"></path>
+                <path d="M16.5 3.5a2.1 2.1 0 0 1 3 3L7 19l-4 1 1-4Z"></path>
+              </svg>
+            </button>
+          )}
           {onDeleteExtension && (
             <button
               className="annotation-item-delete-button"
@@ -37,9 +146,23 @@ const ListAnnotation = (props: ListAnnotationProps) => {
           <div className="annotation-description">{extension}</div>
         </div>
       ))}
+      {editingIndex === extensions.length && renderEditor()}
+      {editingIndex === null && (onUpdateExtensions || onInsertExtensions) && (
+        <div className="annotation-list-actions">
+          {onUpdateExtensions && (
+            <button className="annotation-add-button" onClick={() => startEditing(extensions.length)}>
+              + Add entry
+            </button>
+          )}
+          {onInsertExtensions && extensions.length > 1 && (
+            <button className="annotation-add-button" onClick={() => onInsertExtensions(extensions.map((_, i) => i))}>
+              Insert all
+            </button>
+          )}
+        </div>
+      )}
     </>
   )
 }
 
 export default ListAnnotation
-
@@ -0,0 +1,139 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from 'vitest'
+import { act } from 'react'
+import { createRoot, Root } from 'react-dom/client'
+import Note from './Note'
+import { LocalStorageAdapter } from './storageAdapter'
+import { SCHEMA_VERSIONS } from './migrations'
+import { updateSettings } from './settings'
+import { NoteType, Checkpoint } from './types'
+
+const NOTE: NoteType = {
+  id: 'note-1',
+  title: 'Floods',
+  content: 'The river flooded the valley in spring.',
+  createdAt: 1700000000000,
+  updatedAt: 1700000000000
+}
+
+// A single branch of automatic checkpoints, a minute apart - more than the default retention keeps
+const CHECKPOINTS: Checkpoint[] = Array.from({ length: 14 }, (_, i): Checkpoint => ({
+  checkpointId: `checkpoint-${i}`,
+  parentId: i === 0 ? null : `checkpoint-${i - 1}`,
+  messageIndex: i * 2,
+  timestamp: 1700000100000 + i * 60000,
+  content: `The river flooded the valley${' again'.repeat(i)}.`,
+  annotationIds: [],
+  summary: i === 0 ? 'Started with 5 words' : '+1 −0 words',
+  wordCount: 5 + i
+}))
+
+let container: HTMLDivElement
+let root: Root
+
+function findButton(text: string | RegExp): HTMLButtonElement | undefined {
+  return Array.from(container.querySelectorAll('button')).find(button =>
+    typeof text === 'string' ? button.textContent === text : text.test(button.textContent)
+  )
+}
+
+async function click(button: HTMLElement) {
+  await act(async () => {
+    button.click()
+  })
+}
+
+// Render the note and wait for its checkpoints to load from storage
+async function renderNote() {
+  await act(async () => {
+    root.render(
+      <Note
+        note={NOTE}
+        annotations={[]}
+        onUpdateTitle={() => {}}
+        onUpdateContent={() => {}}
+        onUpdateFootnotes={() => {}}
+        onUpdateAnnotations={() => {}}
+      />
+    )
+  })
+  for (let i = 0; i < 20 && !container.querySelector('.checkpoint-dot'); i++) {
+    await act(() => new Promise(resolve => setTimeout(resolve, 10)))
+  }
+}
+
+beforeAll(() => {
+  // Not in jsdom; the note only uses it to resize the title
+  globalThis.ResizeObserver ??= class {
+    observe() {}
+    unobserve() {}
+    disconnect() {}
+  }
+  ;(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true
+})
+
+beforeEach(async () => {
+  localStorage.clear()
+  updateSettings({ saveMessages: true, mock: true })
+  const storage = new LocalStorageAdapter()
+  await storage.putSchemaVersions(SCHEMA_VERSIONS)
+  for (const checkpoint of CHECKPOINTS) await storage.putCheckpoint(NOTE.id, checkpoint)
+
+  container = document.createElement('div')
+  document.body.appendChild(container)
+  root = createRoot(container)
+})
+
+afterEach(() => {
+  act(() => root.unmount())
+  container.remove()
+})
+
+describe('Note checkpoint overlays', () => {
+  it('opens and closes the compare view', async () => {
+    await renderNote()
+    expect(container.querySelector('.checkpoint-dot')).not.toBeNull()
+    expect(container.querySelector('.checkpoint-overlay')).toBeNull()
+
+    await click(findButton('Compare'))
+    const overlay = container.querySelector('.checkpoint-overlay')
+    expect(overlay?.querySelector('h2')?.textContent).toBe('Compare')
+
+    await click(container.querySelector('[aria-label="Close compare"]'))
+    expect(container.querySelector('.checkpoint-overlay')).toBeNull()
+  })
+
+  it('opens and closes the timeline', async () => {
+    await renderNote()
+
+    await click(findButton('Timeline'))
+    const overlay = container.querySelector('.checkpoint-overlay')
+    expect(overlay?.querySelector('h2')?.textContent).toBe('Timeline')
+    expect(overlay.querySelectorAll('.timeline-entry')).toHaveLength(CHECKPOINTS.length)
+
+    await click(container.querySelector('[aria-label="Close timeline"]'))
+    expect(container.querySelector('.checkpoint-overlay')).toBeNull()
+  })
+
+  it('asks before pruning checkpoints', async () => {
+    await renderNote()
+    await click(findButton('Timeline'))
+    const entries = () => container.querySelectorAll('.timeline-entry').length
+
+    const remove = findButton(/^Remove \d+ checkpoints?$/)
+    const count = Number(remove.textContent.match(/\d+/)[0])
+    expect(count).toBeGreaterThan(0)
+
+    // The first click only asks
+    await click(remove)
+    expect(entries()).toBe(CHECKPOINTS.length)
+    await click(findButton('Cancel'))
+    expect(findButton('Delete permanently')).toBeUndefined()
+    expect(entries()).toBe(CHECKPOINTS.length)
+
+    await click(findButton(/^Remove \d+ checkpoints?$/))
+    await click(findButton('Delete permanently'))
+    expect(entries()).toBe(CHECKPOINTS.length - count)
+    expect(await new LocalStorageAdapter().getCheckpoints(NOTE.id)).toHaveLength(CHECKPOINTS.length - count)
+  })
+})
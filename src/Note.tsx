@@ -1,23 +1,42 @@
 import React, { Component } from 'react'
 import { EditorContent, useEditor, Editor as TiptapEditor } from '@tiptap/react'
+import { BubbleMenu } from '@tiptap/react/menus'
+import { Transaction } from '@tiptap/pm/state'
 import StarterKit from '@tiptap/starter-kit'
 import { AnnotationMarks } from './AnnotationMark'
-import { NoteType, ReferenceAnnotation, ListAnnotation, TextSpanAnnotation, Checkpoint, getTextSpans } from './types'
+import { AnnotationSync, AnnotationMarkTarget } from './AnnotationSync'
+import { FootnoteReference, convertFootnoteMarkers, generateFootnoteId, stripFootnoteMarkers, ANALYSIS_TEXT_SERIALIZERS } from './Footnote'
+import { NoteType, ReferenceAnnotation, ListAnnotation, TextSpanAnnotation, TextAnchor, RecordType, Footnote, Checkpoint, getTextSpans } from './types'
 import { debounce } from './utils'
+import { normalizeText } from './spanResolver'
+import { anchorFromSpan, createAnchor, locateAnchor, locateAnnotationRanges } from './anchoring'
+import { TextPositionMap, buildTextPositionMap, rangeToOffsets, offsetToInsertPosition } from './textPositions'
+import { planListInsertion } from './listInsertion'
+import { getSettings } from './settings'
 import { createPatch } from 'diff'
-import { Analyzer, AnnotationResult } from './analyzer'
-import { CheckpointManager } from './CheckpointManager'
+import { Analyzer, AnnotationResult, SelectionRequestKind } from './analyzer'
+import { describeLLMError } from './LLMService'
+import { attachCheckpoint, isOverBudget } from './usage'
+import UsagePanel from './UsagePanel'
+import { CheckpointManager, CheckpointDetails } from './CheckpointManager'
+import CheckpointTree from './CheckpointTree'
+import CheckpointCompare from './CheckpointCompare'
+import CheckpointTimeline from './CheckpointTimeline'
 import { AnnotationPopup } from './AnnotationPopup'
 import ReferenceAnnotationContent from './ReferenceAnnotation'
 import ListAnnotationContent from './ListAnnotation'
 import ConnectionAnnotationComponent from './ConnectionAnnotation'
+import OrphanedAnnotations from './OrphanedAnnotations'
+import FootnotesSection from './FootnotesSection'
+import SelectionMenu, { SelectionMenuActions } from './SelectionMenu'
 
 // TipTap Editor Wrapper Component (functional component to use hooks)
 interface TipTapEditorWrapperProps {
   initialContent: string
   onEditorReady: (editor: TiptapEditor) => void
-  onUpdate: () => void
+  onUpdate: (transactions: Transaction[]) => void
   onMarkClick?: (annotationId: string, position: { top: number; left: number }) => void
+  selectionActions: SelectionMenuActions
 }
 
 // Helper to convert plain text newlines to HTML breaks for TipTap
@@ -25,15 +44,15 @@ const convertNewlinesToBreaks = (text: string): string => {
   return text.replace(/\n/g, '<br>')
 }
 
-const TipTapEditorWrapper: React.FC<TipTapEditorWrapperProps> = ({ initialContent, onEditorReady, onUpdate, onMarkClick }) => {
+const TipTapEditorWrapper: React.FC<TipTapEditorWrapperProps> = ({ initialContent, onEditorReady, onUpdate, onMarkClick, selectionActions }) => {
   const editorRef = React.useRef<TiptapEditor | null>(null)
 
   const editor = useEditor({
-    extensions: [StarterKit, ...AnnotationMarks],
-    content: convertNewlinesToBreaks(initialContent),
+    extensions: [StarterKit, ...AnnotationMarks, AnnotationSync, FootnoteReference],
+    content: convertFootnoteMarkers(convertNewlinesToBreaks(initialContent)),
     enablePasteRules: false, // Disable default paste rules to let our custom handlePaste handle everything
-    onUpdate: () => {
-      onUpdate()
+    onUpdate: ({ transaction, appendedTransactions }) => {
+      onUpdate([transaction, ...appendedTransactions])
     },
     editorProps: {
       attributes: {
@@ -82,7 +101,7 @@ const TipTapEditorWrapper: React.FC<TipTapEditorWrapperProps> = ({ initialConten
 
         // Convert all newlines (including multiple consecutive ones) to <br> tags
         // HardBreak extension (included in StarterKit) will handle rendering these <br> tags
-        const htmlContent = convertNewlinesToBreaks(text)
+        const htmlContent = convertFootnoteMarkers(convertNewlinesToBreaks(text))
 
         // Use TipTap's insertContent command to insert the HTML
         const editorInstance = editorRef.current
@@ -106,7 +125,16 @@ const TipTapEditorWrapper: React.FC<TipTapEditorWrapperProps> = ({ initialConten
     }
   }, [editor])
 
-  return editor ? <EditorContent editor={editor} className="editor-wrapper" /> : null
+  if (!editor) return null
+
+  return (
+    <>
+      <EditorContent editor={editor} className="editor-wrapper" />
+      <BubbleMenu editor={editor}>
+        <SelectionMenu editor={editor} {...selectionActions} />
+      </BubbleMenu>
+    </>
+  )
 }
 
 interface NoteProps {
@@ -114,6 +142,7 @@ interface NoteProps {
   annotations: TextSpanAnnotation[] // Annotations for this note (from App's annotations map)
   onUpdateTitle: (noteId: string, title: string) => void
   onUpdateContent: (noteId: string, content: string) => void
+  onUpdateFootnotes: (noteId: string, footnotes: Footnote[]) => void
   onUpdateAnnotations: (noteId: string, annotations: TextSpanAnnotation[]) => void
 }
 
@@ -122,8 +151,20 @@ interface NoteState {
   popupPosition: { top: number; left: number } | null
   content: string
   isAnalyzing: boolean
+  analysisError: string | null // Last analysis failure, shown next to the spinner
+  lastRunId: string | null // Most recent analysis run (for the usage panel)
+  isBudgetPaused: boolean // Monthly budget reached - automatic analysis is skipped
+  pendingConnection: TextAnchor | null // First span picked for a manual connection
+  pendingSelectionRequests: number // Research/connect requests in flight
+  isCompareOpen: boolean // Checkpoint diff view shown over the editor
+  isTimelineOpen: boolean // Checkpoint timeline shown over the editor
 }
 
+// Delay before anchors moved by typing are written back to the annotations
+const ANCHOR_SAVE_DELAY = 500
+
+type EditorRange = { from: number; to: number }
+
 class Note extends Component<NoteProps, NoteState> {
   private annotationLayerRef = React.createRef<HTMLDivElement>()
   private titleRef = React.createRef<HTMLTextAreaElement>()
@@ -135,6 +176,10 @@ class Note extends Component<NoteProps, NoteState> {
   private editor: TiptapEditor | null = null
   private hoveredAnnotationElement: HTMLElement | null = null
   private resizeObserver: ResizeObserver | null = null
+  private liveRanges = new Map<string, Array<EditorRange | null>>() // Editor ranges per annotation span, mapped through every edit
+  private selfUpdatedAnnotations: TextSpanAnnotation[] | null = null // Last annotations update that only refreshed anchors
+  private debouncedSaveAnchors: () => void
+  private selectionRequests = new AbortController() // Aborted to stop pending selection requests
 
   constructor(props: NoteProps) {
     super(props)
@@ -142,7 +187,14 @@ class Note extends Component<NoteProps, NoteState> {
       openAnnotationId: null,
       popupPosition: null,
       content: props.note.content || '',
-      isAnalyzing: false
+      isAnalyzing: false,
+      analysisError: null,
+      lastRunId: null,
+      isBudgetPaused: false,
+      pendingConnection: null,
+      pendingSelectionRequests: 0,
+      isCompareOpen: false,
+      isTimelineOpen: false
     }
 
     // Initialize checkpoint manager
@@ -151,8 +203,9 @@ class Note extends Component<NoteProps, NoteState> {
     // Initialize analyzer for this note
     this.analyzer = new Analyzer(props.note.id)
 
-    // Create debounced version of contentLogger
-    this.debouncedContentLogger = debounce(this.contentLogger.bind(this), 2000)
+    // Create debounced version of contentLogger (delay follows the live setting)
+    this.debouncedContentLogger = debounce(this.contentLogger.bind(this), () => getSettings().debounceDelay)
+    this.debouncedSaveAnchors = debounce(this.saveAnchors.bind(this), ANCHOR_SAVE_DELAY)
   }
 
   // Get annotations as a Map for convenient lookup (derived from props)
@@ -162,34 +215,64 @@ class Note extends Component<NoteProps, NoteState> {
     return map
   }
 
-  // Normalize quotes and dashes for consistent matching (all 1:1 character replacements)
-  private normalizeText(text: string): string {
-    return text
-      .replace(/\u201C/g, '"')  // Left double quote (") to straight quote
-      .replace(/\u201D/g, '"')  // Right double quote (") to straight quote
-      .replace(/\u2018/g, "'")  // Left single quote (') to straight quote
-      .replace(/\u2019/g, "'")  // Right single quote (') to straight quote
-      .replace(/\u2013/g, '-')  // En dash (–) to hyphen
-      .replace(/\u2014/g, '-')  // Em dash (—) to hyphen
-      .replace(/\u2015/g, '-')  // Horizontal bar (―) to hyphen
+  // Analysis text of the document with the position of each character
+  private getTextPositionMap(): TextPositionMap {
+    return buildTextPositionMap(this.editor!.state.doc, ANALYSIS_TEXT_SERIALIZERS)
   }
 
-  // Find textSpan in editor and return selection range
-  private findTextSpan(textSpan: string): { from: number; to: number } | null {
-    if (!this.editor) return null
+  // Map live ranges through the editor's transactions so annotations follow the text as it's edited
+  private handleEditorTransactions(transactions: Transaction[]) {
+    if (!transactions.some(tr => tr.docChanged)) return
+
+    this.liveRanges.forEach((ranges, annotationId) => {
+      this.liveRanges.set(annotationId, ranges.map(range => {
+        if (!range) return null
+        let { from, to } = range
+        for (const tr of transactions) {
+          // Text typed at either edge stays outside the span
+          from = tr.mapping.map(from, 1)
+          to = tr.mapping.map(to, -1)
+        }
+        return from < to ? { from, to } : null // Span deleted entirely
+      }))
+    })
 
-    // Normalize both content and textSpan to ensure matching works correctly
-    // Normalization is 1:1 character replacement, so index in normalized content = index in original content
-    const content = this.getContent() // Already normalized by default
-    const normalizedTextSpan = this.normalizeText(textSpan) // Normalize textSpan as well (LLM may output curly quotes/dashes)
-    const index = content.indexOf(normalizedTextSpan)
-    if (index === -1) return null
+    this.debouncedSaveAnchors()
+  }
+
+  // Write live ranges back into the annotations' anchors, orphaning annotations whose text is gone
+  private saveAnchors() {
+    if (!this.editor) return
+
+    const map = this.getTextPositionMap()
+    let changed = false
+
+    const updatedAnnotations = this.props.annotations.map(entry => {
+      const ranges = this.liveRanges.get(entry.annotationId)
+      if (!ranges || entry.orphaned) return entry
+
+      if (ranges.some(range => !range)) {
+        console.warn('Annotation lost its text span:', entry.textSpan)
+        this.liveRanges.delete(entry.annotationId)
+        changed = true
+        return { ...entry, orphaned: true }
+      }
+
+      const anchors = ranges.map(range => {
+        const { start, end } = rangeToOffsets(map, range!.from, range!.to)
+        return createAnchor(map.text, start, end)
+      })
+      if (JSON.stringify(anchors) === JSON.stringify(entry.anchors)) return entry
 
-    // +1 because ProseMirror positions start at 1 (position 0 is before the document)
-    const from = index + 1
-    const to = from + normalizedTextSpan.length
+      changed = true
+      const exacts = anchors.map(anchor => anchor.exact)
+      return { ...entry, anchors, textSpan: Array.isArray(entry.textSpan) ? exacts : exacts[0] }
+    })
 
-    return { from, to }
+    if (changed) {
+      this.selfUpdatedAnnotations = updatedAnnotations
+      this.props.onUpdateAnnotations(this.props.note.id, updatedAnnotations)
+    }
   }
 
   // Convert analyzer results to TextSpanAnnotation entries and add them
@@ -206,23 +289,22 @@ class Note extends Component<NoteProps, NoteState> {
     const currentAnnotations = isCurrentNote ? this.props.annotations : []
 
     const newAnnotations: TextSpanAnnotation[] = []
+    const content = isCurrentNote ? this.getTextPositionMap().text : ''
 
     for (const result of results) {
       // Normalize to array for validation
       const spans = getTextSpans(result.textSpan)
 
-      // Only validate textSpans if this is the current note (we have the editor)
-      if (isCurrentNote) {
-        let allSpansFound = true
-        for (const span of spans) {
-          const range = this.findTextSpan(span)
-          if (!range) {
-            console.warn('Could not find textSpan in editor:', span)
-            allSpansFound = false
-            break
-          }
+      // Only anchor textSpans if this is the current note (we have the editor)
+      let anchors = result.anchors
+      if (isCurrentNote && !anchors) {
+        const located = spans.map(span => anchorFromSpan(content, span))
+        const missingIndex = located.findIndex(anchor => !anchor)
+        if (missingIndex !== -1) {
+          console.warn('Could not find textSpan in editor:', spans[missingIndex])
+          continue
         }
-        if (!allSpansFound) continue
+        anchors = located as TextAnchor[]
       }
 
       // Generate unique ID for this annotation
@@ -255,7 +337,8 @@ class Note extends Component<NoteProps, NoteState> {
         noteId, // Use the noteId from the analysis result
         textSpan: result.textSpan,
         annotation,
-        checkpointId: this.checkpointManager.getCurrentCheckpointId() || undefined
+        checkpointId: this.checkpointManager.getCurrentCheckpointId() || undefined,
+        anchors
       })
     }
 
@@ -270,39 +353,51 @@ class Note extends Component<NoteProps, NoteState> {
       return
     }
 
-    // Clear all annotation marks first (each type separately)
-    const markTypes = ['reference', 'list', 'connection']
-    markTypes.forEach(markType => {
-      this.editor!.chain()
-        .setTextSelection({ from: 0, to: this.editor!.state.doc.content.size })
-        .unsetMark(markType)
-        .setTextSelection(this.editor!.state.doc.content.size)
-        .run()
+    // Forget ranges of deleted annotations
+    const annotationIds = new Set(this.props.annotations.map(a => a.annotationId))
+    this.liveRanges.forEach((_, annotationId) => {
+      if (!annotationIds.has(annotationId)) this.liveRanges.delete(annotationId)
     })
 
-    // Reapply marks for all annotations from props
-    // Use the annotation type as the mark name (reference, list, or connection)
-    this.props.annotations.forEach(({ annotationId, textSpan, annotation }) => {
-      // Handle both single and multiple text spans
-      const spans = getTextSpans(textSpan)
-      const markName = annotation.type // 'reference', 'list', or 'connection'
-
-      for (const span of spans) {
-        const range = this.findTextSpan(span)
-        if (range) {
-          this.editor!.chain()
-            .setTextSelection({ from: range.from, to: range.to })
-            .setMark(markName, { annotationId })
-            .setTextSelection(range.to)
-            .run()
-        }
+    // Work out where every annotation's mark belongs; the AnnotationSync extension
+    // diffs that against the marks already in the document and only touches what changed
+    let newlyLocated = false
+    const map = this.getTextPositionMap()
+    const targets: AnnotationMarkTarget[] = []
+    this.props.annotations.forEach(entry => {
+      const { annotationId, annotation } = entry
+      if (entry.orphaned) {
+        this.liveRanges.delete(annotationId)
+        return
       }
+
+      // Live ranges follow edits; anchors are only needed the first time an annotation is seen
+      let ranges = this.liveRanges.get(annotationId)
+      if (!ranges) {
+        ranges = locateAnnotationRanges(map, entry)
+        this.liveRanges.set(annotationId, ranges)
+        newlyLocated = true
+      }
+
+      targets.push({
+        annotationId,
+        type: annotation.type, // Mark name: 'reference', 'list', or 'connection'
+        ranges: ranges.filter((range): range is EditorRange => range !== null)
+      })
     })
+
+    this.editor.commands.syncAnnotationMarks(targets)
+
+    // Store anchors for newly located annotations (and orphan those that couldn't be found)
+    if (newlyLocated) {
+      this.saveAnchors()
+    }
   }
 
   componentDidMount() {
     const initial = this.props.note.content || ''
-    this.initialContent = initial
+    this.initialContent = stripFootnoteMarkers(initial)
+    this.renderWhenCheckpointsLoad()
 
     // Add hover detection for annotations
     document.addEventListener('mousemove', this.handleAnnotationHover)
@@ -369,17 +464,28 @@ class Note extends Component<NoteProps, NoteState> {
     if (prevProps.note.id !== this.props.note.id) {
       // Don't abort analyzer - let it continue and results will be routed to correct note
       // But we do need a new analyzer and checkpoint manager for the new note
+      // Selection requests were about the previous note's text, so those do stop
+      this.cancelSelectionRequests()
       this.analyzer = new Analyzer(this.props.note.id)
       this.checkpointManager = new CheckpointManager(this.props.note.id)
+      this.renderWhenCheckpointsLoad()
 
       const initial = this.props.note.content || ''
       this.setContent(initial)
-      this.initialContent = initial
+      this.liveRanges.clear() // Ranges belong to the previous note's document
+      this.initialContent = stripFootnoteMarkers(initial)
       this.setState({
         content: initial,
         openAnnotationId: null,
         popupPosition: null,
-        isAnalyzing: false
+        isAnalyzing: false,
+        analysisError: null,
+        lastRunId: null,
+        isBudgetPaused: false,
+        pendingConnection: null,
+        pendingSelectionRequests: 0,
+        isCompareOpen: false,
+        isTimelineOpen: false
       })
 
       if (this.editor) {
@@ -393,6 +499,9 @@ class Note extends Component<NoteProps, NoteState> {
 
     // Sync marks when annotations change in props (single source of truth)
     if (this.editor && prevProps.annotations !== this.props.annotations) {
+      // Anchor refreshes come from the editor itself - its marks already match
+      if (this.props.annotations === this.selfUpdatedAnnotations) return
+
       // Use setTimeout to ensure editor has processed any pending changes
       setTimeout(() => this.syncMarks(), 0)
     }
@@ -401,6 +510,7 @@ class Note extends Component<NoteProps, NoteState> {
   componentWillUnmount() {
     // Don't abort analyzer on unmount - let background analysis complete
     // Results will still be routed correctly via App's handleUpdateAnnotations
+    this.cancelSelectionRequests()
 
     // Clean up hover detection
     document.removeEventListener('mousemove', this.handleAnnotationHover)
@@ -425,6 +535,13 @@ class Note extends Component<NoteProps, NoteState> {
     if (nextState.openAnnotationId !== this.state.openAnnotationId) return true
     if (nextState.content !== this.state.content) return true
     if (nextState.isAnalyzing !== this.state.isAnalyzing) return true
+    if (nextState.analysisError !== this.state.analysisError) return true
+    if (nextState.lastRunId !== this.state.lastRunId) return true
+    if (nextState.isBudgetPaused !== this.state.isBudgetPaused) return true
+    if (nextState.pendingConnection !== this.state.pendingConnection) return true
+    if (nextState.pendingSelectionRequests !== this.state.pendingSelectionRequests) return true
+    if (nextState.isCompareOpen !== this.state.isCompareOpen) return true
+    if (nextState.isTimelineOpen !== this.state.isTimelineOpen) return true
     return false
   }
 
@@ -434,15 +551,20 @@ class Note extends Component<NoteProps, NoteState> {
       const content = this.editor.getText()
 
       // Normalize by default for matching/searching, but preserve original for saving
-      return normalize ? this.normalizeText(content) : content
+      return normalize ? normalizeText(content) : content
     }
     return ''
   }
 
+  // The text the model sees - the document without citation markers
+  private getAnalysisText(): string {
+    return this.editor ? this.editor.getText({ textSerializers: ANALYSIS_TEXT_SERIALIZERS }) : ''
+  }
+
   setContent(content: string) {
     if (this.editor) {
       // Convert newlines to <br> tags to preserve line breaks
-      this.editor.commands.setContent(convertNewlinesToBreaks(content))
+      this.editor.commands.setContent(convertFootnoteMarkers(convertNewlinesToBreaks(content)))
     }
   }
 
@@ -477,7 +599,7 @@ class Note extends Component<NoteProps, NoteState> {
     // Capture the analyzer's noteId (it knows which note it's analyzing)
     const analyzerNoteId = this.analyzer.getNoteID()
 
-    const currentContent = this.getContent(false) // Don't normalize for saving
+    const currentContent = this.getAnalysisText()
     if (currentContent !== this.initialContent) {
       let diff: string = '';
 
@@ -487,8 +609,14 @@ class Note extends Component<NoteProps, NoteState> {
         diff = this.getDiff(this.initialContent, currentContent)
       }
 
-      // Show spinner while analyzing
-      this.setState({ isAnalyzing: true })
+      // Automatic analysis stops once the monthly budget is spent
+      if (isOverBudget()) {
+        this.setState({ isBudgetPaused: true })
+        return
+      }
+
+      // Show spinner while analyzing (and clear any previous failure)
+      this.setState({ isAnalyzing: true, analysisError: null, isBudgetPaused: false })
 
       try {
         // Analyze the content change - pass callback for progressive annotation updates
@@ -507,7 +635,14 @@ class Note extends Component<NoteProps, NoteState> {
 
         // Only create checkpoint if tool calls were executed and we're still on the same note
         if (result.toolCallsExecuted && result.noteId === this.props.note.id) {
-          this.createCheckpoint()
+          const checkpoint = this.createCheckpoint()
+          if (result.runId) {
+            attachCheckpoint(result.runId, checkpoint.checkpointId)
+          }
+        }
+
+        if (result.runId && analyzerNoteId === this.props.note.id) {
+          this.setState({ lastRunId: result.runId })
         }
 
         // Only update initialContent if we're still on the same note
@@ -516,6 +651,10 @@ class Note extends Component<NoteProps, NoteState> {
         }
       } catch (error) {
         console.error('Analysis error:', error)
+        // Surface the failure on the note it belongs to (retries and fallbacks are already exhausted)
+        if (analyzerNoteId === this.props.note.id) {
+          this.setState({ analysisError: describeLLMError(error) })
+        }
       } finally {
         // Hide spinner when done (only if still on the same note)
         if (analyzerNoteId === this.props.note.id) {
@@ -530,14 +669,17 @@ class Note extends Component<NoteProps, NoteState> {
 
     const content = this.getContent(false) // Don't normalize for saving
     const contentChanged = content !== this.state.content
+    // Adding or removing a citation marker changes what's saved, not what's analyzed
+    const textChanged = stripFootnoteMarkers(content) !== stripFootnoteMarkers(this.state.content)
 
     this.setState({ content })
 
     // Only trigger the analysis logger if actual text content changed (not just marks)
-    if (contentChanged) {
-      // Call the debounced logger (will log after 2 seconds of inactivity)
+    if (textChanged) {
+      // Call the debounced logger (will log after debounceDelay ms of inactivity)
       this.debouncedContentLogger()
-
+    }
+    if (contentChanged) {
       // Still update immediately (for saving)
       this.props.onUpdateContent(this.props.note.id, content)
     }
@@ -562,12 +704,36 @@ class Note extends Component<NoteProps, NoteState> {
     this.props.onUpdateTitle(this.props.note.id, title)
   }
 
+  // Checkpoints load asynchronously - show the navigation once they're in
+  private renderWhenCheckpointsLoad() {
+    const checkpointManager = this.checkpointManager
+    checkpointManager.ready.then(() => {
+      if (checkpointManager === this.checkpointManager) {
+        this.forceUpdate()
+      }
+    })
+  }
+
   // Create a checkpoint with current state
-  private createCheckpoint() {
-    const messageIndex = this.analyzer.getMessages().length - 1
+  private createCheckpoint(details?: CheckpointDetails): Checkpoint {
+    const messageIndex = this.analyzer.getMessageIndex()
     const content = this.getContent(false)
-    const annotationIds = this.props.annotations.map(a => a.annotationId)
-    this.checkpointManager.createCheckpoint(messageIndex, content, annotationIds)
+    return this.checkpointManager.createCheckpoint(messageIndex, content, this.props.annotations, details)
+  }
+
+  // Checkpoint made by hand from the timeline
+  handleCreateNamedCheckpoint = async (details: CheckpointDetails) => {
+    const { analyzer } = this
+    await analyzer.ready // The checkpoint records how far the conversation had got
+    if (analyzer !== this.analyzer) return
+    this.createCheckpoint(details)
+    this.forceUpdate()
+  }
+
+  handlePruneCheckpoints = async (checkpointIds: string[]): Promise<number> => {
+    const removed = await this.checkpointManager.pruneCheckpoints(checkpointIds)
+    this.forceUpdate()
+    return removed
   }
 
   // Get all checkpoints for UI
@@ -576,27 +742,37 @@ class Note extends Component<NoteProps, NoteState> {
   }
 
   // Restore document to a checkpoint
-  restoreToCheckpoint = (checkpointId: string) => {
-    const restorationData = this.checkpointManager.restoreToCheckpoint(checkpointId, (messageIndex: number) => {
-      // Truncate messages in analyzer
-      this.analyzer.truncateMessages(messageIndex)
-    })
+  restoreToCheckpoint = async (checkpointId: string) => {
+    // The branch being left keeps the conversation as it stands, so wait for it to load
+    const { analyzer, checkpointManager } = this
+    await analyzer.ready
+    if (checkpointManager !== this.checkpointManager) return
+
+    const restorationData = await checkpointManager.restoreToCheckpoint(checkpointId, analyzer.getMessages())
     if (!restorationData) {
       console.warn('Checkpoint not found:', checkpointId)
       return
     }
+    if (checkpointManager !== this.checkpointManager) return
 
-    // Update initialContent BEFORE setContent to prevent handleContentChange from saving old content
-    this.initialContent = restorationData.content
+    // Continue with the restored branch's conversation
+    analyzer.setMessages(restorationData.messages)
 
-    // Filter annotations to only those in the checkpoint
-    const checkpointAnnotationIds = new Set(restorationData.annotationIds)
-    const filteredAnnotations = this.props.annotations.filter(
-      ann => checkpointAnnotationIds.has(ann.annotationId)
-    )
+    // Update initialContent BEFORE setContent to prevent handleContentChange from saving old content
+    this.initialContent = stripFootnoteMarkers(restorationData.content)
+
+    // Annotations as the checkpoint saw them, including ones deleted since. Checkpoints from
+    // before snapshots only have IDs, so those fall back to the current annotations.
+    const snapshotsById = new Map((restorationData.annotations || []).map(ann => [ann.annotationId, ann]))
+    const currentById = new Map(this.props.annotations.map(ann => [ann.annotationId, ann]))
+    // Orphaned annotations get another chance - their text may be back in the restored content
+    const restoredAnnotations = restorationData.annotationIds
+      .map(id => snapshotsById.get(id) || currentById.get(id))
+      .filter(Boolean)
+      .map(ann => ann.orphaned ? { ...ann, orphaned: false } : ann)
 
     // Update annotations in props (single source of truth)
-    this.props.onUpdateAnnotations(this.props.note.id, filteredAnnotations)
+    this.props.onUpdateAnnotations(this.props.note.id, restoredAnnotations)
 
     // Update state with restored content
     this.setState({
@@ -605,6 +781,10 @@ class Note extends Component<NoteProps, NoteState> {
       // After state is updated, set editor content and save to storage
       this.setContent(restorationData.content)
 
+      // The document was replaced wholesale, so re-anchor from stored anchors
+      this.liveRanges.clear()
+      this.syncMarks()
+
       // Save restored content to storage
       this.props.onUpdateContent(this.props.note.id, restorationData.content)
     })
@@ -694,6 +874,193 @@ class Note extends Component<NoteProps, NoteState> {
     }
   }
 
+  // Replace an annotation's records after an edit, add or reorder in the popup
+  handleUpdateRecords = (annotationId: string, records: RecordType[]) => {
+    const entry = this.getAnnotationsMap().get(annotationId)
+    if (!entry || (entry.annotation.type !== 'reference' && entry.annotation.type !== 'connection')) return
+
+    if (records.length === 0) {
+      this.handleDeleteAnnotation(annotationId)
+      return
+    }
+    this.updateAnnotation(annotationId, { ...entry, annotation: { ...entry.annotation, records } })
+  }
+
+  handleUpdateExtensions = (annotationId: string, extensions: string[]) => {
+    const entry = this.getAnnotationsMap().get(annotationId)
+    if (!entry || entry.annotation.type !== 'list') return
+
+    if (extensions.length === 0) {
+      this.handleDeleteAnnotation(annotationId)
+      return
+    }
+    this.updateAnnotation(annotationId, { ...entry, annotation: { ...entry.annotation, extensions } })
+  }
+
+  // Write accepted list extensions into the note after the list, in the list's own style.
+  // Goes through a normal (undoable) editor transaction; accepted entries leave the suggestions.
+  handleInsertExtensions = (annotationId: string, extensionIndices: number[]) => {
+    const entry = this.getAnnotationsMap().get(annotationId)
+    const range = this.liveRanges.get(annotationId)?.[0]
+    if (!this.editor || !entry || entry.annotation.type !== 'list' || !range) return
+
+    const { extensions } = entry.annotation
+    const accepted = extensionIndices.map(i => extensions[i]).filter(Boolean)
+    if (accepted.length === 0) return
+
+    const map = this.getTextPositionMap()
+    const { start, end } = rangeToOffsets(map, range.from, range.to)
+    const insertion = planListInsertion(map.text, start, end, accepted)
+
+    // Line breaks in this editor are hard breaks, not newline characters
+    const { schema } = this.editor.state
+    const nodes = insertion.text.split('\n').flatMap((line, i) => [
+      ...(i > 0 ? [schema.nodes.hardBreak.create()] : []),
+      ...(line ? [schema.text(line)] : [])
+    ])
+    const pos = offsetToInsertPosition(map, insertion.offset)
+    this.editor.chain().command(({ tr }) => {
+      tr.insert(pos, nodes)
+      return true
+    }).run()
+
+    // Fold the inserted text into the last analyzed content too, so the next patch
+    // doesn't send the model its own suggestions back for analysis
+    const before = createAnchor(map.text, Math.max(0, insertion.offset - 64), insertion.offset)
+    const located = this.initialContent === map.text
+      ? { end: insertion.offset }
+      : before.exact ? locateAnchor(this.initialContent, before) : null
+    if (located) {
+      this.initialContent = this.initialContent.slice(0, located.end) + insertion.text + this.initialContent.slice(located.end)
+    }
+
+    this.handleUpdateExtensions(annotationId, extensions.filter((_, i) => !extensionIndices.includes(i)))
+  }
+
+  // Cite a record: a footnote marker goes at the end of the annotated span (the first span of a connection)
+  handleCiteRecord = (annotationId: string, recordIndex: number) => {
+    const entry = this.getAnnotationsMap().get(annotationId)
+    const range = this.liveRanges.get(annotationId)?.[0]
+    if (!this.editor || !entry || entry.annotation.type === 'list' || !range) return
+
+    const record = entry.annotation.records[recordIndex]
+    if (!record) return
+
+    const footnote: Footnote = { footnoteId: generateFootnoteId(), record: { ...record }, annotationId }
+    this.editor.chain()
+      .insertContentAt(range.to, { type: 'footnoteReference', attrs: { footnoteId: footnote.footnoteId } })
+      .run()
+
+    this.props.onUpdateFootnotes(this.props.note.id, [...(this.props.note.footnotes || []), footnote])
+  }
+
+  // Footnotes referenced in the document, in marker order (deleted markers drop out; undo brings them back)
+  private getFootnotesInOrder(): Footnote[] {
+    if (!this.editor) return []
+
+    const footnotesById = new Map((this.props.note.footnotes || []).map(f => [f.footnoteId, f]))
+    const ordered: Footnote[] = []
+    this.editor.state.doc.descendants(node => {
+      if (node.type.name === 'footnoteReference') {
+        const footnote = footnotesById.get(node.attrs.footnoteId)
+        if (footnote) ordered.push(footnote)
+      }
+    })
+    return ordered
+  }
+
+  // Try to anchor an orphaned annotation again (e.g. after its text was retyped)
+  handleReattachAnnotation = (annotationId: string) => {
+    const entry = this.getAnnotationsMap().get(annotationId)
+    if (!entry) return
+
+    this.liveRanges.delete(annotationId)
+    this.updateAnnotation(annotationId, { ...entry, orphaned: false })
+  }
+
+  // Anchor for a range the writer selected in the editor
+  private getSelectionAnchor(range: EditorRange): TextAnchor | null {
+    if (!this.editor) return null
+    const map = this.getTextPositionMap()
+    const { start, end } = rangeToOffsets(map, range.from, range.to)
+    return start < end ? createAnchor(map.text, start, end) : null
+  }
+
+  handleAddManualRecord = (range: EditorRange, record: RecordType) => {
+    const anchor = this.getSelectionAnchor(range)
+    if (!anchor) return
+
+    this.addAnnotationsFromResults(this.props.note.id, [
+      { type: 'reference', textSpan: anchor.exact, records: [record], anchors: [anchor] }
+    ])
+  }
+
+  handleResearchSelection = (range: EditorRange) => {
+    const anchor = this.getSelectionAnchor(range)
+    if (anchor) {
+      this.runSelectionRequest('research', [anchor])
+    }
+  }
+
+  // First pick is remembered; the second pick sends both spans off for a connection
+  handleConnectSelection = (range: EditorRange) => {
+    const anchor = this.getSelectionAnchor(range)
+    if (!anchor) return
+
+    const first = this.state.pendingConnection
+    if (!first) {
+      this.setState({ pendingConnection: anchor })
+      return
+    }
+
+    this.setState({ pendingConnection: null })
+    this.runSelectionRequest('connect', [first, anchor])
+  }
+
+  handleCancelConnection = () => {
+    this.setState({ pendingConnection: null })
+  }
+
+  private cancelSelectionRequests = () => {
+    this.selectionRequests.abort()
+    this.selectionRequests = new AbortController()
+  }
+
+  private async runSelectionRequest(kind: SelectionRequestKind, anchors: TextAnchor[]) {
+    const noteId = this.props.note.id
+    this.setState({ analysisError: null })
+    this.setState(prev => ({ pendingSelectionRequests: prev.pendingSelectionRequests + 1 }))
+    const { signal } = this.selectionRequests
+
+    try {
+      const result = await this.analyzer.analyzeSelection(
+        kind,
+        anchors.map(anchor => anchor.exact),
+        this.getAnalysisText(),
+        this.props.note.title,
+        (resultNoteId, annotation) => {
+          // Keep the writer's exact selection when the model quoted it back unchanged
+          const spans = getTextSpans(annotation.textSpan)
+          const isSelection = spans.length === anchors.length && spans.every((span, i) => span === anchors[i].exact)
+          this.addAnnotationsFromResults(resultNoteId, [isSelection ? { ...annotation, anchors } : annotation])
+        },
+        signal
+      )
+
+      if (result.runId && noteId === this.props.note.id) {
+        this.setState({ lastRunId: result.runId })
+      }
+    } catch (error) {
+      console.error('Selection analysis error:', error)
+      if (noteId === this.props.note.id) {
+        this.setState({ analysisError: describeLLMError(error) })
+      }
+    } finally {
+      if (noteId === this.props.note.id) {
+        this.setState(prev => ({ pendingSelectionRequests: Math.max(0, prev.pendingSelectionRequests - 1) }))
+      }
+    }
+  }
 
   handlePaste = (e: React.ClipboardEvent<HTMLDivElement>) => {
     // const pastedText = e.clipboardData.getData('text/plain')
@@ -789,6 +1156,8 @@ class Note extends Component<NoteProps, NoteState> {
             <ReferenceAnnotationContent
               records={refAnnotation.records}
               onDeleteRecord={(recordIndex) => this.handleDeleteRecord(annotationId, recordIndex)}
+              onUpdateRecords={(records) => this.handleUpdateRecords(annotationId, records)}
+              onCiteRecord={(recordIndex) => this.handleCiteRecord(annotationId, recordIndex)}
             />
           )
         } else if (annotation.type === 'list') {
@@ -798,6 +1167,8 @@ class Note extends Component<NoteProps, NoteState> {
             <ListAnnotationContent
               extensions={listAnnotation.extensions}
               onDeleteExtension={(extensionIndex) => this.handleDeleteExtension(annotationId, extensionIndex)}
+              onUpdateExtensions={(extensions) => this.handleUpdateExtensions(annotationId, extensions)}
+              onInsertExtensions={(extensionIndices) => this.handleInsertExtensions(annotationId, extensionIndices)}
             />
           )
         } else {
@@ -855,7 +1226,7 @@ class Note extends Component<NoteProps, NoteState> {
                 {this.renderAnnotationOverlay()}
               </div>
               {this.editor && this.props.annotations
-                .filter(ann => ann.annotation.type === 'connection')
+                .filter(ann => ann.annotation.type === 'connection' && !ann.orphaned)
                 .map(ann => (
                   <ConnectionAnnotationComponent
                     key={ann.annotationId}
@@ -867,6 +1238,8 @@ class Note extends Component<NoteProps, NoteState> {
                     onPopupOpen={this.handleConnectionPopupOpen}
                     onPopupClose={this.handleConnectionPopupClose}
                     onDeleteRecord={this.handleDeleteRecord}
+                    onUpdateRecords={this.handleUpdateRecords}
+                    onCiteRecord={this.handleCiteRecord}
                   />
                 ))
               }
@@ -882,53 +1255,91 @@ class Note extends Component<NoteProps, NoteState> {
                 // Force re-render so connection annotations get the editor
                 this.forceUpdate()
               }}
-              onUpdate={() => {
+              onUpdate={(transactions) => {
+                this.handleEditorTransactions(transactions)
                 this.handleContentChange()
               }}
               onMarkClick={this.handleMarkClick}
+              selectionActions={{
+                pendingConnection: this.state.pendingConnection?.exact || null,
+                onAddRecord: this.handleAddManualRecord,
+                onResearch: this.handleResearchSelection,
+                onConnect: this.handleConnectSelection,
+                onCancelConnect: this.handleCancelConnection
+              }}
             />
           </div>
+          <FootnotesSection footnotes={this.getFootnotesInOrder()} />
+          <OrphanedAnnotations
+            annotations={this.props.annotations.filter(ann => ann.orphaned)}
+            onReattach={this.handleReattachAnnotation}
+            onDelete={this.handleDeleteAnnotation}
+          />
         </div>
         {this.state.isAnalyzing && (
           <div className="analysis-spinner">
             <div className="spinner-icon" />
           </div>
         )}
-        <CheckpointNavigation
+        {!this.state.isAnalyzing && this.state.pendingSelectionRequests > 0 && (
+          <button
+            className="analysis-spinner cancellable"
+            onClick={this.cancelSelectionRequests}
+            title="Cancel selection requests"
+            aria-label="Cancel selection requests"
+          >
+            <div className="spinner-icon" />
+          </button>
+        )}
+        {!this.state.isAnalyzing && this.state.pendingSelectionRequests === 0 && this.state.analysisError && (
+          <div className="analysis-error" role="alert">
+            <span className="analysis-error-message">Analysis failed: {this.state.analysisError}</span>
+            <button
+              className="analysis-error-dismiss"
+              onClick={() => this.setState({ analysisError: null })}
+              aria-label="Dismiss error"
+            >
+              ×
+            </button>
+          </div>
+        )}
+        <UsagePanel
+          noteId={this.props.note.id}
+          checkpointId={this.checkpointManager.getCurrentCheckpointId()}
+          lastRunId={this.state.lastRunId}
+          isBudgetPaused={this.state.isBudgetPaused}
+        />
+        <CheckpointTree
           checkpoints={this.getCheckpoints()}
           currentCheckpointId={this.checkpointManager.getCurrentCheckpointId()}
           onCheckpointClick={this.restoreToCheckpoint}
+          onCompare={() => this.setState({ isCompareOpen: true, isTimelineOpen: false })}
+          onOpenTimeline={() => this.setState({ isTimelineOpen: true, isCompareOpen: false })}
         />
+        {this.state.isTimelineOpen && (
+          <CheckpointTimeline
+            checkpoints={this.getCheckpoints()}
+            currentCheckpointId={this.checkpointManager.getCurrentCheckpointId()}
+            onCreate={this.handleCreateNamedCheckpoint}
+            onRestore={this.restoreToCheckpoint}
+            onPrune={this.handlePruneCheckpoints}
+            onClose={() => this.setState({ isTimelineOpen: false })}
+          />
+        )}
+        {this.state.isCompareOpen && (
+          <CheckpointCompare
+            checkpoints={this.getCheckpoints()}
+            currentCheckpointId={this.checkpointManager.getCurrentCheckpointId()}
+            live={{ content: this.getContent(false), annotationIds: this.props.annotations.map(a => a.annotationId) }}
+            annotations={this.props.annotations}
+            loadAnnotations={(checkpoint) => this.checkpointManager.loadAnnotations(checkpoint)}
+            getContent={(checkpointId) => this.checkpointManager.getContent(checkpointId)}
+            onClose={() => this.setState({ isCompareOpen: false })}
+          />
+        )}
       </div>
     )
   }
 }
 
-// Checkpoint Navigation Component
-interface CheckpointNavigationProps {
-  checkpoints: Checkpoint[]
-  currentCheckpointId: string | null
-  onCheckpointClick: (checkpointId: string) => void
-}
-
-const CheckpointNavigation = ({ checkpoints, currentCheckpointId, onCheckpointClick }: CheckpointNavigationProps) => {
-  if (checkpoints.length === 0) {
-    return null
-  }
-
-  return (
-    <div className="checkpoint-navigation">
-      {checkpoints.map((checkpoint, index) => (
-        <button
-          key={checkpoint.checkpointId}
-          className={`checkpoint-dot ${currentCheckpointId === checkpoint.checkpointId ? 'active' : ''}`}
-          onClick={() => onCheckpointClick(checkpoint.checkpointId)}
-          aria-label={`Go to checkpoint ${index + 1}`}
-          title={`Checkpoint ${index + 1}`}
-        />
-      ))}
-    </div>
-  )
-}
-
 export default Note
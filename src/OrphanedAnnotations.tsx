@@ -0,0 +1,48 @@
+import { TextSpanAnnotation, getTextSpans } from './types'
+
+interface OrphanedAnnotationsProps {
+  annotations: TextSpanAnnotation[]
+  onReattach: (annotationId: string) => void
+  onDelete: (annotationId: string) => void
+}
+
+const TYPE_LABELS = {
+  reference: 'Reference',
+  list: 'List',
+  connection: 'Connection'
+}
+
+// Short description of what an annotation contained
+const summarize = ({ annotation }: TextSpanAnnotation): string => {
+  if (annotation.type === 'list') {
+    return annotation.extensions.join(', ')
+  }
+  return annotation.records.map(record => record.title).filter(Boolean).join('; ')
+}
+
+// Annotations whose text was edited away - kept here instead of silently disappearing
+const OrphanedAnnotations = (props: OrphanedAnnotationsProps) => {
+  const { annotations, onReattach, onDelete } = props
+  if (annotations.length === 0) return null
+
+  return (
+    <div className="orphaned-annotations">
+      <div className="orphaned-annotations-header">Detached annotations ({annotations.length})</div>
+      {annotations.map(entry => (
+        <div key={entry.annotationId} className="orphaned-annotation">
+          <div className="orphaned-annotation-span">
+            <span className="orphaned-annotation-type">{TYPE_LABELS[entry.annotation.type]}</span>
+            {getTextSpans(entry.textSpan).map(span => `"${span}"`).join(' / ')}
+          </div>
+          <div className="orphaned-annotation-summary">{summarize(entry)}</div>
+          <div className="orphaned-annotation-actions">
+            <button onClick={() => onReattach(entry.annotationId)}>Re-attach</button>
+            <button onClick={() => onDelete(entry.annotationId)}>Delete</button>
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export default OrphanedAnnotations
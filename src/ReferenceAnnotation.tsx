@@ -1,17 +1,141 @@
-import { RecordType } from './types'
+import React from 'react'
+import { RecordType, cleanRecord } from './types'
+import { moveItem } from './utils'
 
 interface ReferenceAnnotationProps {
   records: RecordType[]
   onDeleteRecord?: (recordIndex: number) => void
+  onUpdateRecords?: (records: RecordType[]) => void // Enables editing, adding and reordering
+  onCiteRecord?: (recordIndex: number) => void // Inserts a footnote citing the record
 }
 
+// Editable fields, in display order
+const RECORD_FIELDS: Array<{ key: keyof RecordType; label: string; multiline?: boolean }> = [
+  { key: 'title', label: 'Title' },
+  { key: 'author', label: 'Author' },
+  { key: 'domain', label: 'Domain' },
+  { key: 'search_query', label: 'Search query' },
+  { key: 'description', label: 'Description', multiline: true }
+]
+
 const ReferenceAnnotation = (props: ReferenceAnnotationProps) => {
-  const { records, onDeleteRecord } = props
+  const { records, onDeleteRecord, onUpdateRecords, onCiteRecord } = props
+  const [editingIndex, setEditingIndex] = React.useState<number | null>(null) // records.length = new record
+  const [draft, setDraft] = React.useState<RecordType>({})
+  const [dragIndex, setDragIndex] = React.useState<number | null>(null)
+
+  const startEditing = (index: number) => {
+    setDraft({ ...(records[index] || {}) })
+    setEditingIndex(index)
+  }
+
+  const handleSave = () => {
+    if (editingIndex === null || !onUpdateRecords) return
+    const record = cleanRecord(draft)
+    if (!record.title && !record.description) return
+
+    const updated = editingIndex < records.length
+      ? records.map((r, i) => (i === editingIndex ? record : r))
+      : [...records, record]
+    onUpdateRecords(updated)
+    setEditingIndex(null)
+  }
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null && dragIndex !== index && onUpdateRecords) {
+      onUpdateRecords(moveItem(records, dragIndex, index))
+    }
+    setDragIndex(null)
+  }
+
+  const renderEditor = () => (
+    <div className="annotation-item annotation-item-editing" key="editor">
+      {RECORD_FIELDS.map(({ key, label, multiline }) => multiline ? (
+        <textarea
+          key={key}
+          className="annotation-edit-field"
+          placeholder={label}
+          rows={3}
+          value={draft[key] || ''}
+          onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+        />
+      ) : (
+        <input
+          key={key}
+          className="annotation-edit-field"
+          placeholder={label}
+          value={draft[key] || ''}
+          onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+        />
+      ))}
+      <div className="annotation-edit-actions">
+        <button onClick={() => setEditingIndex(null)}>Cancel</button>
+        <button onClick={handleSave}>Save</button>
+      </div>
+    </div>
+  )
 
   return (
     <>
-      {records.map((ann, index) => (
-        <div key={index} className="annotation-item">
+      {records.map((ann, index) => editingIndex === index ? renderEditor() : (
+        <div
+          key={index}
+          className={`annotation-item ${dragIndex === index ? 'dragging' : ''}`}
+          draggable={!!onUpdateRecords && editingIndex === null}
+          onDragStart={() => setDragIndex(index)}
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={() => handleDrop(index)}
+          onDragEnd={() => setDragIndex(null)}
+        >
+          {onCiteRecord && (
+            <button
+              className="annotation-item-insert-button"
+              onClick={(e) => {
+                e.stopPropagation()
+                onCiteRecord(index)
+              }}
+              aria-label="Cite as footnote"
+              title="Cite as footnote"
+            >
+              <svg
+                width="12"
+                height="12"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              >
+                <path d="M3 21c3 0 7-1 7-8V5c0-1.25-.76-2-2-2H4c-1.25 0-2 .75-2 1.97V11c0 1.25.75 2 2 2 1 0 1 0 1 1v1c0 1-1 2-2 2s-1 .01-1 1.03V20c0 1 0 1 1 1z"></path>
+                <path d="M15 21c3 0 7-1 7-8V5c0-1.25-.76-2-2-2h-4c-1.25 0-2 .75-2 1.97V11c0 1.25.75 2 2 2h.75c0 2.25.25 4-2.75 4v3c0 1 0 1 1 1z"></path>
+              </svg>
+            </button>
+          )}
+          {onUpdateRecords && (
+            <button
+              className="annotation-item-edit-button"
+              onClick={(e) => {
+                e.stopPropagation()
+                startEditing(index)
+              }}
+              aria-label="Edit record"
+            >
+              <svg
+                width="12"
+                height="12"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              >
+                <path d="M12 20h9"></path>
+                <path d="M16.5 3.5a2.1 2.1 0 0 1 3 3L7 19l-4 1 1-4Z"></path>
+              </svg>
+            </button>
+          )}
           {onDeleteRecord && (
             <button
               className="annotation-item-delete-button"
@@ -53,6 +177,12 @@ const ReferenceAnnotation = (props: ReferenceAnnotationProps) => {
           )}
         </div>
       ))}
+      {editingIndex === records.length && renderEditor()}
+      {onUpdateRecords && editingIndex === null && (
+        <button className="annotation-add-button" onClick={() => startEditing(records.length)}>
+          + Add record
+        </button>
+      )}
     </>
   )
 }
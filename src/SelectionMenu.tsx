@@ -0,0 +1,92 @@
+import React from 'react'
+import { Editor as TiptapEditor } from '@tiptap/react'
+import { RecordType, cleanRecord } from './types'
+
+type EditorRange = { from: number; to: number }
+
+interface SelectionMenuProps {
+  editor: TiptapEditor
+  pendingConnection: string | null // Text of the first span picked for a connection
+  onAddRecord: (range: EditorRange, record: RecordType) => void
+  onResearch: (range: EditorRange) => void
+  onConnect: (range: EditorRange) => void
+  onCancelConnect: () => void
+}
+
+// Everything the menu needs besides the editor (passed through TipTapEditorWrapper)
+export type SelectionMenuActions = Omit<SelectionMenuProps, 'editor'>
+
+const EMPTY_RECORD: RecordType = { title: '', author: '', description: '' }
+
+// Shorten a span for display in the menu
+const truncate = (text: string, length: number = 24): string =>
+  text.length > length ? `${text.slice(0, length).trim()}…` : text
+
+// Actions for the current text selection, shown in the editor's bubble menu
+const SelectionMenu = (props: SelectionMenuProps) => {
+  const { editor, pendingConnection, onAddRecord, onResearch, onConnect, onCancelConnect } = props
+  const [isWritingRecord, setIsWritingRecord] = React.useState(false)
+  const [record, setRecord] = React.useState<RecordType>(EMPTY_RECORD)
+
+  // Read the selection when an action is taken - the menu doesn't rerender on every selection change
+  const getRange = (): EditorRange => {
+    const { from, to } = editor.state.selection
+    return { from, to }
+  }
+
+  const handleSave = () => {
+    const cleaned = cleanRecord(record)
+    if (!cleaned.title && !cleaned.description) return
+
+    onAddRecord(getRange(), cleaned)
+    setRecord(EMPTY_RECORD)
+    setIsWritingRecord(false)
+  }
+
+  if (isWritingRecord) {
+    return (
+      <div className="selection-menu selection-menu-form">
+        <input
+          autoFocus
+          placeholder="Title"
+          value={record.title}
+          onChange={(e) => setRecord({ ...record, title: e.target.value })}
+        />
+        <input
+          placeholder="Author"
+          value={record.author}
+          onChange={(e) => setRecord({ ...record, author: e.target.value })}
+        />
+        <textarea
+          placeholder="Why it's relevant"
+          rows={3}
+          value={record.description}
+          onChange={(e) => setRecord({ ...record, description: e.target.value })}
+        />
+        <div className="selection-menu-actions">
+          <button onClick={() => setIsWritingRecord(false)}>Cancel</button>
+          <button onClick={handleSave}>Save</button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="selection-menu">
+      <button onClick={() => setIsWritingRecord(true)}>Add note</button>
+      <button onClick={() => onResearch(getRange())}>Research</button>
+      {pendingConnection ? (
+        <>
+          <button onClick={() => onConnect(getRange())} title={pendingConnection}>
+            Connect to "{truncate(pendingConnection)}"
+          </button>
+          <button onClick={onCancelConnect} aria-label="Cancel connection">×</button>
+        </>
+      ) : (
+        <button onClick={() => onConnect(getRange())}>Connect…</button>
+      )}
+    </div>
+  )
+}
+
+export default SelectionMenu
@@ -0,0 +1,345 @@
+import { Component } from 'react'
+import { getSettings, updateSettings, resetSettings, subscribeSettings, Settings, PROVIDERS, ProviderName, LocalToolsMode } from './settings'
+import { getStorage, handleStorageError } from './storageAdapter'
+import { migrateStorage } from './migrations'
+
+interface SettingsPanelProps {
+  onClose: () => void
+}
+
+interface SettingsPanelState {
+  settings: Settings
+  dataCheck: string[] | null // Result of the last saved-data check, one line each
+}
+
+const PROVIDER_LABELS: Record<ProviderName, string> = {
+  together: 'Together.ai',
+  kimi: 'Kimi / Moonshot (needs proxy)',
+  openrouter: 'OpenRouter',
+  local: 'Local / OpenAI-compatible'
+}
+
+// Settings view - every change is applied (and persisted) immediately
+class SettingsPanel extends Component<SettingsPanelProps, SettingsPanelState> {
+  private unsubscribe: (() => void) | null = null
+
+  state: SettingsPanelState = {
+    settings: getSettings(),
+    dataCheck: null
+  }
+
+  componentDidMount() {
+    this.unsubscribe = subscribeSettings(settings => this.setState({ settings }))
+  }
+
+  componentWillUnmount() {
+    if (this.unsubscribe) {
+      this.unsubscribe()
+      this.unsubscribe = null
+    }
+  }
+
+  private handleModelChange = (model: string) => {
+    const { settings } = this.state
+    updateSettings({ models: { ...settings.models, [settings.provider]: model } })
+  }
+
+  private handleApiKeyChange = (apiKey: string) => {
+    const { settings } = this.state
+    updateSettings({ apiKeys: { ...settings.apiKeys, [settings.provider]: apiKey } })
+  }
+
+  private handleAddFallback = (provider: ProviderName) => {
+    const { settings } = this.state
+    if (!provider || settings.fallbackProviders.includes(provider)) return
+    updateSettings({ fallbackProviders: [...settings.fallbackProviders, provider] })
+  }
+
+  private handleRemoveFallback = (provider: ProviderName) => {
+    const { settings } = this.state
+    updateSettings({ fallbackProviders: settings.fallbackProviders.filter(p => p !== provider) })
+  }
+
+  private handlePriceChange = (provider: ProviderName, field: 'prompt' | 'completion', value: string) => {
+    const parsed = parseFloat(value)
+    if (isNaN(parsed)) return
+    const { settings } = this.state
+    updateSettings({
+      prices: { ...settings.prices, [provider]: { ...settings.prices[provider], [field]: parsed } }
+    })
+  }
+
+  private handleNumberChange = (key: 'temperature' | 'debounceDelay' | 'maxRetries' | 'retryBaseDelay' | 'monthlyBudget' | 'compactionThreshold', value: string) => {
+    const parsed = parseFloat(value)
+    if (!isNaN(parsed)) {
+      updateSettings({ [key]: parsed })
+    }
+  }
+
+  // Dry run of the schema migrations over what's saved - reports without changing anything
+  private handleCheckData = async () => {
+    try {
+      const storage = await getStorage()
+      const report = await migrateStorage(storage, { dryRun: true })
+      const versions = Object.entries(report.from).map(([dataset, version]) => `${dataset} v${version}`).join(', ')
+      this.setState({
+        dataCheck: [
+          `Stored in ${report.backend}: ${versions}`,
+          ...(report.applied.length > 0 ? report.applied.map(step => `Pending update - ${step}`) : ['Up to date']),
+          ...(report.errors.length > 0 ? report.errors : ['No problems found'])
+        ]
+      })
+    } catch (error) {
+      handleStorageError(error, 'checking saved data')
+      this.setState({ dataCheck: ['Could not read saved data'] })
+    }
+  }
+
+  render() {
+    const { onClose } = this.props
+    const { settings, dataCheck } = this.state
+
+    return (
+      <div className="settings-panel">
+        <div className="settings-panel-header">
+          <h2>Settings</h2>
+          <button className="annotation-popup-close" onClick={onClose} aria-label="Close settings">
+            ×
+          </button>
+        </div>
+
+        <section className="settings-section">
+          <h3>Model</h3>
+          <label className="settings-field">
+            <span>Provider</span>
+            <select
+              value={settings.provider}
+              onChange={(e) => updateSettings({ provider: e.target.value as ProviderName })}
+            >
+              {PROVIDERS.map(provider => (
+                <option key={provider} value={provider}>{PROVIDER_LABELS[provider]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="settings-field">
+            <span>Model</span>
+            <input
+              type="text"
+              value={settings.models[settings.provider]}
+              onChange={(e) => this.handleModelChange(e.target.value)}
+            />
+          </label>
+          <label className="settings-field">
+            <span>API key</span>
+            <input
+              type="password"
+              value={settings.apiKeys[settings.provider]}
+              placeholder={settings.provider === 'local' ? 'Optional' : ''}
+              onChange={(e) => this.handleApiKeyChange(e.target.value)}
+            />
+          </label>
+          {settings.provider === 'local' && (
+            <>
+              <label className="settings-field">
+                <span>Base URL</span>
+                <input
+                  type="text"
+                  value={settings.localBaseUrl}
+                  onChange={(e) => updateSettings({ localBaseUrl: e.target.value })}
+                />
+              </label>
+              <label className="settings-field">
+                <span>Tool calls</span>
+                <select
+                  value={settings.localToolsMode}
+                  onChange={(e) => updateSettings({ localToolsMode: e.target.value as LocalToolsMode })}
+                >
+                  <option value="auto">Auto (fall back to prompted JSON)</option>
+                  <option value="native">Native `tools`</option>
+                  <option value="prompt">Prompted JSON</option>
+                </select>
+              </label>
+            </>
+          )}
+          <label className="settings-field">
+            <span>Temperature</span>
+            <input
+              type="number"
+              min={0}
+              max={2}
+              step={0.1}
+              value={settings.temperature}
+              onChange={(e) => this.handleNumberChange('temperature', e.target.value)}
+            />
+          </label>
+          <label className="settings-field">
+            <span>Reasoning effort</span>
+            <select
+              value={settings.reasoningEffort}
+              onChange={(e) => updateSettings({ reasoningEffort: e.target.value as Settings['reasoningEffort'] })}
+            >
+              <option value="low">Low</option>
+              <option value="medium">Medium</option>
+              <option value="high">High</option>
+            </select>
+          </label>
+        </section>
+
+        <section className="settings-section">
+          <h3>Reliability</h3>
+          <label className="settings-field">
+            <span>Retries per provider</span>
+            <input
+              type="number"
+              min={0}
+              max={10}
+              step={1}
+              value={settings.maxRetries}
+              onChange={(e) => this.handleNumberChange('maxRetries', e.target.value)}
+            />
+          </label>
+          <label className="settings-field">
+            <span>Initial retry delay (ms)</span>
+            <input
+              type="number"
+              min={100}
+              step={100}
+              value={settings.retryBaseDelay}
+              onChange={(e) => this.handleNumberChange('retryBaseDelay', e.target.value)}
+            />
+          </label>
+          <div className="settings-field">
+            <span>Fallback providers</span>
+            <div className="settings-fallbacks">
+              {settings.fallbackProviders.map((provider, index) => (
+                <span key={provider} className="settings-chip">
+                  {index + 1}. {PROVIDER_LABELS[provider]}
+                  <button onClick={() => this.handleRemoveFallback(provider)} aria-label={`Remove ${provider}`}>×</button>
+                </span>
+              ))}
+              <select value="" onChange={(e) => this.handleAddFallback(e.target.value as ProviderName)}>
+                <option value="">Add fallback…</option>
+                {PROVIDERS
+                  .filter(provider => provider !== settings.provider && !settings.fallbackProviders.includes(provider))
+                  .map(provider => (
+                    <option key={provider} value={provider}>{PROVIDER_LABELS[provider]}</option>
+                  ))}
+              </select>
+            </div>
+          </div>
+        </section>
+
+        <section className="settings-section">
+          <h3>Analysis</h3>
+          <label className="settings-field">
+            <span>Debounce delay (ms)</span>
+            <input
+              type="number"
+              min={250}
+              step={250}
+              value={settings.debounceDelay}
+              onChange={(e) => this.handleNumberChange('debounceDelay', e.target.value)}
+            />
+          </label>
+          <label className="settings-field">
+            <span>Compact history above (est. tokens, 0 = never)</span>
+            <input
+              type="number"
+              min={0}
+              step={1000}
+              value={settings.compactionThreshold}
+              onChange={(e) => this.handleNumberChange('compactionThreshold', e.target.value)}
+            />
+          </label>
+          <label className="settings-field settings-checkbox">
+            <input
+              type="checkbox"
+              checked={settings.mock}
+              onChange={(e) => updateSettings({ mock: e.target.checked })}
+            />
+            <span>Use mock note and annotations</span>
+          </label>
+        </section>
+
+        <section className="settings-section">
+          <h3>Usage &amp; budget</h3>
+          <div className="settings-field">
+            <span>Prices (USD per 1M tokens, in / out)</span>
+          </div>
+          {PROVIDERS.map(provider => (
+            <div key={provider} className="settings-field settings-price">
+              <span>{PROVIDER_LABELS[provider]}</span>
+              <div className="settings-price-inputs">
+                <input
+                  type="number"
+                  min={0}
+                  step={0.01}
+                  value={settings.prices[provider].prompt}
+                  onChange={(e) => this.handlePriceChange(provider, 'prompt', e.target.value)}
+                  aria-label={`${provider} prompt price`}
+                />
+                <input
+                  type="number"
+                  min={0}
+                  step={0.01}
+                  value={settings.prices[provider].completion}
+                  onChange={(e) => this.handlePriceChange(provider, 'completion', e.target.value)}
+                  aria-label={`${provider} completion price`}
+                />
+              </div>
+            </div>
+          ))}
+          <label className="settings-field">
+            <span>Monthly budget (USD, 0 = no cap)</span>
+            <input
+              type="number"
+              min={0}
+              step={1}
+              value={settings.monthlyBudget}
+              onChange={(e) => this.handleNumberChange('monthlyBudget', e.target.value)}
+            />
+          </label>
+        </section>
+
+        <section className="settings-section">
+          <h3>Persistence</h3>
+          <label className="settings-field settings-checkbox">
+            <input
+              type="checkbox"
+              checked={settings.saveNotes}
+              onChange={(e) => updateSettings({ saveNotes: e.target.checked })}
+            />
+            <span>Save notes and annotations</span>
+          </label>
+          <label className="settings-field settings-checkbox">
+            <input
+              type="checkbox"
+              checked={settings.saveMessages}
+              onChange={(e) => updateSettings({ saveMessages: e.target.checked })}
+            />
+            <span>Save conversations and checkpoints</span>
+          </label>
+          <div className="settings-field">
+            <span>Saved data</span>
+            <button className="settings-secondary-button" onClick={this.handleCheckData}>
+              Check saved data
+            </button>
+          </div>
+          {dataCheck && (
+            <ul className="settings-data-check">
+              {dataCheck.map((line, i) => <li key={i}>{line}</li>)}
+            </ul>
+          )}
+        </section>
+
+        <div className="settings-panel-footer">
+          <button className="settings-secondary-button" onClick={() => resetSettings()}>
+            Reset to defaults
+          </button>
+        </div>
+      </div>
+    )
+  }
+}
+
+export default SettingsPanel
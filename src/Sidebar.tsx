@@ -9,6 +9,10 @@ interface SidebarProps {
   onSelectNote: (noteId: string) => void
   onCreateNote: () => void
   onDeleteNote: (noteId: string) => void
+  isSettingsOpen: boolean
+  onToggleSettings: () => void
+  isExportOpen: boolean
+  onToggleExport: () => void
 }
 
 interface SidebarState {
@@ -25,7 +29,7 @@ class Sidebar extends Component<SidebarProps, SidebarState> {
   }
 
   render() {
-    const { notes, currentNoteId, onSelectNote, onCreateNote, onDeleteNote } = this.props
+    const { notes, currentNoteId, onSelectNote, onCreateNote, onDeleteNote, isSettingsOpen, onToggleSettings, isExportOpen, onToggleExport } = this.props
     const { isCollapsed } = this.state
 
     // When collapsed, only render the floating expand button
@@ -75,6 +79,20 @@ class Sidebar extends Component<SidebarProps, SidebarState> {
             </div>
           ))}
         </div>
+        <div className="sidebar-footer">
+          <button
+            className={`settings-button ${isExportOpen ? 'active' : ''}`}
+            onClick={onToggleExport}
+          >
+            Export
+          </button>
+          <button
+            className={`settings-button ${isSettingsOpen ? 'active' : ''}`}
+            onClick={onToggleSettings}
+          >
+            Settings
+          </button>
+        </div>
       </div>
     )
   }
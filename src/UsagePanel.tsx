@@ -0,0 +1,73 @@
+import { Component } from 'react'
+import { getNoteUsage, getCheckpointUsage, getRunUsage, getMonthUsage, formatCost, formatTokens, UsageTotals } from './usage'
+import { getSettings } from './settings'
+
+interface UsagePanelProps {
+  noteId: string
+  checkpointId: string | null
+  lastRunId: string | null
+  isBudgetPaused: boolean
+}
+
+interface UsagePanelState {
+  isOpen: boolean
+}
+
+// Small collapsible panel with token/cost totals - reads the usage ledger on every render
+class UsagePanel extends Component<UsagePanelProps, UsagePanelState> {
+  state: UsagePanelState = {
+    isOpen: false
+  }
+
+  private renderRow(label: string, totals: UsageTotals) {
+    return (
+      <div className="usage-row" key={label}>
+        <span className="usage-label">{label}</span>
+        <span className="usage-tokens">
+          {formatTokens(totals.prompt_tokens)} in / {formatTokens(totals.completion_tokens)} out
+        </span>
+        <span className="usage-cost">{formatCost(totals.cost)}</span>
+      </div>
+    )
+  }
+
+  render() {
+    const { noteId, checkpointId, lastRunId, isBudgetPaused } = this.props
+    const { isOpen } = this.state
+
+    const noteUsage = getNoteUsage(noteId)
+    const month = getMonthUsage()
+    const { monthlyBudget } = getSettings()
+
+    return (
+      <div className={`usage-panel ${isOpen ? 'open' : ''} ${isBudgetPaused ? 'paused' : ''}`}>
+        <button
+          className="usage-toggle"
+          onClick={() => this.setState(prev => ({ isOpen: !prev.isOpen }))}
+          title="Token usage"
+        >
+          {isBudgetPaused ? 'Budget reached' : formatCost(noteUsage.cost)}
+        </button>
+        {isOpen && (
+          <div className="usage-details">
+            {lastRunId && this.renderRow('Last run', getRunUsage(lastRunId))}
+            {checkpointId && this.renderRow('Checkpoint', getCheckpointUsage(checkpointId))}
+            {this.renderRow(`Note (${noteUsage.runs} runs)`, noteUsage)}
+            {this.renderRow('This month', month)}
+            {Object.entries(month.byProvider).map(([provider, totals]) =>
+              this.renderRow(`  ${provider}`, totals!)
+            )}
+            {monthlyBudget > 0 && (
+              <div className="usage-budget">
+                {formatCost(month.cost)} of {formatCost(monthlyBudget)} monthly budget
+                {isBudgetPaused && ' - automatic analysis paused'}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    )
+  }
+}
+
+export default UsagePanel
@@ -1,23 +1,32 @@
-import { RecordType } from './types'
-import { Message, llmService, LLMOptions, ToolCall, ToolResponse } from './LLMService'
+import { RecordType, TextAnchor } from './types'
+import { Message, getLLMService, isAbortError, LLMOptions, ToolCall, ToolResponse, TokenUsage } from './LLMService'
+import { getSettings, ProviderName } from './settings'
+import { addUsage, recordRunUsage, summarizeUsage, UsageTotals } from './usage'
+import { compactMessages, logicalLength, toRequestMessage } from './compaction'
+import { JSONSchema, parseToolArguments, validateSchema, ToolArgumentsError } from './toolSchema'
+import { resolveSpan } from './spanResolver'
+import { getStorage, handleStorageError } from './storageAdapter'
 import mockAnnotations from './mock/mockAnnotations.json'
 
-const MOCK = import.meta.env.VITE_MOCK === 'true'
-const SHOULD_SAVE_MESSAGES = import.meta.env.VITE_SAVE_MESSAGES === 'true'
-
 // Result from a single annotation tool call
 export interface AnnotationResult {
   type: 'reference' | 'list' | 'connection'
   textSpan: string | string[] // Single for reference/list, array for connection
   records?: RecordType[]
   extensions?: string[]
+  anchors?: TextAnchor[] // Exact positions, when the spans were picked in the editor
 }
 
+// Focused requests on spans the writer selected
+export type SelectionRequestKind = 'research' | 'connect'
+
 // Result from analyze() - returns annotations instead of mutating state
 export interface AnalyzeResult {
   noteId: string // The note this analysis was for (for routing results correctly)
   annotations: AnnotationResult[]
   toolCallsExecuted: boolean
+  runId?: string // Identifies this run's usage records (absent when no LLM call was made)
+  usage?: UsageTotals // Tokens and cost summed over every LLM call in this run
 }
 
 const SYSTEM_PROMPT = `
@@ -46,8 +55,18 @@ Here's an update to the essay in the form of a patch. Anything to add?
 If no significant changes have been made since the last analysis, or the user appears to be mid-edit, or simply rearranging content,just exit by returning an empty array.
 `.trim()
 
+const SELECTION_PROMPTS: Record<SelectionRequestKind, string> = {
+  research: `
+The writer selected a phrase in their essay and wants depth on it specifically.
+Research it and call \`annotate\` once for exactly this phrase (use it verbatim as textSpan), with your most interesting sources.
+`.trim(),
+  connect: `
+The writer selected two phrases in their essay and suspects they are related.
+Find the most meaningful, non-obvious connection and call \`connectSpans\` once with exactly these two phrases (verbatim, in this order) as textSpans.
+`.trim()
+}
+
 // Conversation storage key
-const STORAGE_KEY = 'half-formed-thought-conversations'
 
 // Tool definitions
 const ANNOTATE_TOOL = {
@@ -60,6 +79,7 @@ const ANNOTATE_TOOL = {
       properties: {
         textSpan: {
           type: 'string',
+          minLength: 1,
           description: 'The exact span of text being annotated. Must be an exact string match to the content (no "...", correcting spelling/punctuation or starting/ending with punctuation/whitespace).'
         },
         records: {
@@ -122,6 +142,7 @@ const EXTEND_LIST_TOOL = {
       properties: {
         textSpan: {
           type: 'string',
+          minLength: 1,
           description: 'The exact span of text containing the list to extend. Must be an exact string match to the content (no "...", correcting spelling/punctuation or starting/ending with punctuation/whitespace).'
         },
         extensions: {
@@ -149,7 +170,7 @@ const CONNECT_SPANS_TOOL = {
       properties: {
         textSpans: {
           type: 'array',
-          items: { type: 'string' },
+          items: { type: 'string', minLength: 1 },
           minItems: 2,
           maxItems: 2,
           description: 'Array of exactly 2 text spans to connect. Each must be an exact string match to the content (no "...", correcting spelling/punctuation). First span should appear before the second in the document.'
@@ -194,20 +215,34 @@ const CONNECT_SPANS_TOOL = {
 
 const TOOL_DEFINITIONS = [ANNOTATE_TOOL, GET_NOTE_CONTENT_TOOL, EXTEND_LIST_TOOL, CONNECT_SPANS_TOOL]
 
+// Declared parameter schema for each tool, used to validate the model's arguments
+const TOOL_SCHEMAS: Record<string, JSONSchema> = Object.fromEntries(
+  TOOL_DEFINITIONS.map(tool => [tool.function.name, tool.function.parameters as JSONSchema])
+)
+
+// Counters for tool calls the model got wrong (see Analyzer.getDiagnostics)
+export interface ToolDiagnostics {
+  invalidToolCalls: Record<string, number> // Tool name -> calls rejected by validation
+  repairedArguments: number // Calls whose JSON had to be repaired before parsing
+  lastErrors: string[] // Field-level errors from the most recent rejected call
+}
+
 // Analyzer class - returns annotation data instead of mutating state
 export class Analyzer {
   private noteID: string
-  private messages: Message[]
-  private currentContent: string = '' // Stored content for getNoteContent tool
+  private messages: Message[] = []
+  readonly ready: Promise<void> // Resolves once the saved conversation has loaded
   private abortController: AbortController | null = null
+  private diagnostics: ToolDiagnostics = { invalidToolCalls: {}, repairedArguments: 0, lastErrors: [] }
 
   constructor(noteID: string) {
     this.noteID = noteID
-    this.messages = this.loadMessages()
-
-    if (this.messages.length > 0) {
-      console.log('Previous Messages:', this.messages)
-    }
+    this.ready = this.loadMessages().then(messages => {
+      this.messages = messages
+      if (this.messages.length > 0) {
+        console.log('Previous Messages:', this.messages)
+      }
+    })
   }
 
   // Get the noteID this analyzer is for
@@ -223,48 +258,70 @@ export class Analyzer {
     }
   }
 
-  // Get messages array (for checkpoint creation)
+  // Counts of invalid/repaired tool calls since this analyzer was created
+  getDiagnostics(): ToolDiagnostics {
+    return this.diagnostics
+  }
+
+  // Get messages array (compaction summaries stand in for older turns)
   getMessages(): Message[] {
     return this.messages
   }
 
-  // Truncate messages to a specific index (for checkpoint restoration)
-  truncateMessages(messageIndex: number): void {
-    this.messages = this.messages.slice(0, messageIndex + 1)
-    this.saveMessages()
+  // Index of the last message as if history had never been compacted (for checkpoint creation)
+  getMessageIndex(): number {
+    return logicalLength(this.messages) - 1
   }
 
-  private loadMessages(): Message[] {
-    if (!SHOULD_SAVE_MESSAGES) {
-      return []
+  // Replace the conversation with another branch's (for checkpoint restoration)
+  async setMessages(messages: Message[]): Promise<void> {
+    await this.ready
+    this.messages = messages
+    await this.saveMessages()
+  }
+
+  // Summarize older turns once the history grows past the compaction threshold.
+  // A failed compaction isn't fatal - the analysis just runs with the full history.
+  private async compactIfNeeded(runUsage: Map<ProviderName, TokenUsage>): Promise<void> {
+    try {
+      const result = await compactMessages(this.messages, this.abortController?.signal)
+      if (!result) return
+
+      this.messages = result.messages
+      this.saveMessages()
+      if (result.usage) {
+        addUsage(runUsage, result.provider || getSettings().provider, result.usage)
+      }
+    } catch (error) {
+      if (isAbortError(error, this.abortController?.signal)) throw error
+      console.error('Error compacting conversation:', error)
     }
+  }
 
-    const stored = localStorage.getItem(STORAGE_KEY)
-    if (!stored) {
+  private async loadMessages(): Promise<Message[]> {
+    if (!getSettings().saveMessages) {
       return []
     }
 
     try {
-      const parsed = JSON.parse(stored)
-      return (parsed[this.noteID] as Message[]) || []
+      const storage = await getStorage()
+      return await storage.getMessages(this.noteID)
     } catch (error) {
-      console.error('Error loading conversation:', error)
+      handleStorageError(error, 'loading conversation')
       return []
     }
   }
 
-  private saveMessages(): void {
-    if (!SHOULD_SAVE_MESSAGES) {
+  private async saveMessages(): Promise<void> {
+    if (!getSettings().saveMessages) {
       return
     }
 
     try {
-      const stored = localStorage.getItem(STORAGE_KEY)
-      const conversations: Record<string, Message[]> = stored ? JSON.parse(stored) : {}
-      conversations[this.noteID] = this.messages
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(conversations))
+      const storage = await getStorage()
+      await storage.putMessages(this.noteID, this.messages)
     } catch (error) {
-      console.error('Error saving conversation:', error)
+      handleStorageError(error, 'saving conversation')
     }
   }
 
@@ -274,16 +331,16 @@ export class Analyzer {
     title?: string,
     onAnnotation?: (noteId: string, annotation: AnnotationResult) => void
   ): Promise<AnalyzeResult> {
-    // Store current content for getNoteContent tool
-    this.currentContent = currentContent
-
     // Abort any previous in-progress analysis
     this.abort()
     this.abortController = new AbortController()
 
+    // The conversation so far is needed to continue it
+    await this.ready
+
     const collectedAnnotations: AnnotationResult[] = []
 
-    if (MOCK) {
+    if (getSettings().mock) {
       // For mock mode, return mock data as annotations
       const mockData = mockAnnotations as any[]
       mockData.forEach(annotation => {
@@ -322,13 +379,22 @@ export class Analyzer {
       newUserMessage = `${PATCH_PROMPT_PREAMBLE}\n\n${patchSection}`
     }
 
-    // Add user message to messages
-    this.messages.push({ role: 'user', content: newUserMessage })
-    console.log('User message:\n\n', newUserMessage)
-
     let toolCallsExecuted = false
+    let userMessageAdded = false
+
+    // Token usage for this run, per provider that served a call (fallbacks may mix providers)
+    const runId = `run-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`
+    const runUsage = new Map<ProviderName, TokenUsage>()
 
     try {
+      // Keep the replayed history bounded before adding the new turn
+      await this.compactIfNeeded(runUsage)
+
+      // Add user message to messages
+      this.messages.push({ role: 'user', content: newUserMessage })
+      userMessageAdded = true
+      console.log('User message:\n\n', newUserMessage)
+
       let finishReason: string | null = null
       let maxIterations = 10 // Prevent infinite loops
       let iteration = 0
@@ -341,67 +407,60 @@ export class Analyzer {
         // This ensures we always have the latest conversation state
         const messages: Message[] = [
           { role: 'system', content: SYSTEM_PROMPT },
-          ...this.messages
+          ...this.messages.map(toRequestMessage)
         ]
 
         // Call LLM with conversation history and tools
+        const settings = getSettings()
         const options: LLMOptions = {
-          temperature: 0.6,
+          temperature: settings.temperature,
           tools: TOOL_DEFINITIONS,
-          reasoning_effort: "medium",
+          reasoning_effort: settings.reasoningEffort,
           signal: this.abortController?.signal
         }
 
-        const response = await llmService.callLLM(messages, options)
+        // Stream the response so each tool call executes (and its annotation is emitted)
+        // as soon as its arguments have finished arriving, rather than after the full round trip
+        let content = ''
+        const toolCalls: ToolCall[] = []
+        const toolResponses: ToolResponse[] = []
+
+        for await (const event of getLLMService().streamLLM(messages, options)) {
+          if (event.type === 'content') {
+            content += event.delta
+          } else if (event.type === 'tool_call') {
+            toolCalls.push(event.toolCall)
+            toolResponses.push(this.runToolCall(event.toolCall, currentContent, collectedAnnotations, onAnnotation))
+          } else if (event.type === 'usage') {
+            addUsage(runUsage, event.provider || settings.provider, event.usage)
+          } else if (event.type === 'finish') {
+            finishReason = event.finish_reason
+          }
+        }
 
         // LLM text accompanying a tool call for logging
-        if (response.content) {
-          console.log(response.content)
+        if (content) {
+          console.log(content)
         }
 
-        finishReason = response.finish_reason || null
+        // Tool calls already ran while streaming, so record them even if the provider
+        // reported a different finish_reason
+        if (toolCalls.length > 0) {
+          finishReason = "tool_calls"
+        }
 
         // Check if finish_reason indicates tool calls
-        if (finishReason === "tool_calls" && response.tool_calls) {
+        if (finishReason === "tool_calls" && toolCalls.length > 0) {
           toolCallsExecuted = true // Mark that tool calls were executed
 
           // Add assistant message with tool calls to messages
           const assistantMessage = {
             role: 'assistant',
-            content: response.content,
-            tool_calls: response.tool_calls
+            content: content || null,
+            tool_calls: toolCalls
           }
           this.messages.push(assistantMessage)
 
-          // Execute tool calls and collect annotations
-          const toolResponses: ToolResponse[] = []
-          for (const toolCall of response.tool_calls) {
-            const toolCallName = toolCall.function.name
-
-            try {
-              const result = this.executeTool(toolCall, collectedAnnotations, onAnnotation)
-              // Format successful result as JSON
-              const content = JSON.stringify(result)
-
-              toolResponses.push({
-                tool_call_id: toolCall.id,
-                role: 'tool',
-                name: toolCallName,
-                content
-              })
-            } catch (error) {
-              // Catch errors and send error message to LLM so it can retry with different parameters
-              const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
-
-              toolResponses.push({
-                tool_call_id: toolCall.id,
-                role: 'tool',
-                name: toolCallName,
-                content: errorMessage
-              })
-            }
-          }
-
           // Add tool responses to messages
           this.messages.push(...(toolResponses as Message[]))
 
@@ -411,10 +470,10 @@ export class Analyzer {
 
         // finish_reason is "stop" or something else - this is the final response
         // Add assistant response to messages
-        if (response.content) {
+        if (content) {
           const finalMessage = {
             role: 'assistant',
-            content: response.content
+            content
           }
           this.messages.push(finalMessage)
         }
@@ -425,39 +484,189 @@ export class Analyzer {
       // Save conversation
       this.saveMessages()
 
-      return { noteId: this.noteID, annotations: collectedAnnotations, toolCallsExecuted }
+      return { noteId: this.noteID, annotations: collectedAnnotations, toolCallsExecuted, runId, usage: summarizeUsage(runUsage) }
     } catch (error) {
       // Check if this was an abort
-      if (error instanceof Error && error.name === 'AbortError') {
+      if (isAbortError(error, this.abortController?.signal)) {
         console.log('Analysis aborted')
         // Remove the user message since we didn't complete
-        this.messages.pop()
+        if (userMessageAdded) this.messages.pop()
         return { noteId: this.noteID, annotations: [], toolCallsExecuted: false }
       }
 
       console.error('Error analyzing content:', error)
       // Remove the user message if API call failed
-      this.messages.pop()
+      if (userMessageAdded) this.messages.pop()
       throw error
     } finally {
       this.abortController = null
+      // Tokens are billed even when the run fails or is aborted, so always record them
+      recordRunUsage(runId, this.noteID, runUsage)
+    }
+  }
+
+  // Focused request on spans the writer selected. Runs outside the conversation history so it
+  // doesn't disturb the automatic analysis (or the checkpoints that index into it), and isn't
+  // cancelled by it - pass a signal to stop it.
+  async analyzeSelection(
+    kind: SelectionRequestKind,
+    spans: string[],
+    currentContent: string,
+    title?: string,
+    onAnnotation?: (noteId: string, annotation: AnnotationResult) => void,
+    signal?: AbortSignal
+  ): Promise<AnalyzeResult> {
+    const collectedAnnotations: AnnotationResult[] = []
+
+    if (getSettings().mock) {
+      throw new Error('Selection requests are not available in mock mode')
+    }
+
+    const tool = kind === 'research' ? ANNOTATE_TOOL : CONNECT_SPANS_TOOL
+    const titleSection = title ? `Title: ${title}\n\n` : ''
+    const spanSection = spans.map(span => `"${span}"`).join('\n')
+    const messages: Message[] = [
+      { role: 'system', content: SYSTEM_PROMPT },
+      { role: 'user', content: `${SELECTION_PROMPTS[kind]}\n\n${titleSection}Content:\n\n${currentContent}\n\nSelected:\n${spanSection}` }
+    ]
+
+    const runId = `run-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`
+    const runUsage = new Map<ProviderName, TokenUsage>()
+    let toolCallsExecuted = false
+
+    try {
+      // A couple of rounds so the model can fix a rejected call
+      for (let iteration = 0; iteration < 3 && collectedAnnotations.length === 0; iteration++) {
+        const settings = getSettings()
+        let content = ''
+        const toolCalls: ToolCall[] = []
+        const toolResponses: ToolResponse[] = []
+
+        for await (const event of getLLMService().streamLLM(messages.map(toRequestMessage), {
+          temperature: settings.temperature,
+          tools: [tool],
+          reasoning_effort: settings.reasoningEffort,
+          signal
+        })) {
+          if (event.type === 'content') {
+            content += event.delta
+          } else if (event.type === 'tool_call') {
+            toolCalls.push(event.toolCall)
+            toolResponses.push(this.runToolCall(event.toolCall, currentContent, collectedAnnotations, onAnnotation))
+          } else if (event.type === 'usage') {
+            addUsage(runUsage, event.provider || settings.provider, event.usage)
+          }
+        }
+
+        if (toolCalls.length === 0) break
+        toolCallsExecuted = true
+
+        messages.push({ role: 'assistant', content: content || undefined, tool_calls: toolCalls })
+        messages.push(...(toolResponses as Message[]))
+      }
+
+      return { noteId: this.noteID, annotations: collectedAnnotations, toolCallsExecuted, runId, usage: summarizeUsage(runUsage) }
+    } catch (error) {
+      if (isAbortError(error, signal)) {
+        console.log('Selection analysis aborted')
+        return { noteId: this.noteID, annotations: [], toolCallsExecuted: false }
+      }
+      throw error
+    } finally {
+      recordRunUsage(runId, this.noteID, runUsage)
+    }
+  }
+
+  // Clean a quoted span and resolve it against the note, returning the note's exact text.
+  // Misquotes (whitespace, case, small wording slips) are corrected; otherwise the error lists
+  // the closest passages so the model can retry with an exact quote.
+  private anchorSpan(span: string, content: string): string {
+    const textSpan = span?.trim().replace(/^[.,:;!?]+|[.,:;!?]+$/g, '').trim()
+    if (!textSpan) {
+      throw new Error('TextSpan is empty after cleaning')
+    }
+
+    const { match, candidates } = resolveSpan(content, textSpan)
+    if (match) {
+      if (match.strategy !== 'exact') {
+        console.log(`Anchored misquoted span (${match.strategy}, ${match.score.toFixed(2)}):`, { textSpan, anchored: match.text })
+      }
+      return match.text
+    }
+
+    const hint = candidates.length > 0
+      ? `Closest passages in the note:\n${candidates.map(c => `- "${c}"`).join('\n')}`
+      : 'Call getNoteContent to see the current text.'
+    throw new Error(`textSpan "${textSpan}" was not found in the note. ${hint}\nUse an exact quote from the note.`)
+  }
+
+  // Execute a tool call and wrap the result (or error) as a tool response for the LLM
+  private runToolCall(
+    toolCall: ToolCall,
+    content: string, // The note as sent with this request
+    collectedAnnotations: AnnotationResult[],
+    onAnnotation?: (noteId: string, annotation: AnnotationResult) => void
+  ): ToolResponse {
+    const toolCallName = toolCall.function.name
+
+    try {
+      const result = this.executeTool(toolCall, content, collectedAnnotations, onAnnotation)
+
+      return {
+        tool_call_id: toolCall.id,
+        role: 'tool',
+        name: toolCallName,
+        // Format successful result as JSON
+        content: JSON.stringify(result)
+      }
+    } catch (error) {
+      // Catch errors and send error message to LLM so it can retry with different parameters
+      let errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+
+      // Give the model the exact fields to fix
+      if (error instanceof ToolArgumentsError) {
+        this.diagnostics.invalidToolCalls[toolCallName] = (this.diagnostics.invalidToolCalls[toolCallName] || 0) + 1
+        this.diagnostics.lastErrors = error.errors
+        console.warn(`Invalid ${toolCallName} call:`, error.errors)
+        errorMessage = `${error.message}:\n${error.errors.map(e => `- ${e}`).join('\n')}\nFix these fields and call ${toolCallName} again.`
+      }
+
+      return {
+        tool_call_id: toolCall.id,
+        role: 'tool',
+        name: toolCallName,
+        content: errorMessage
+      }
     }
   }
 
   // Execute a tool call and return the result (also collects annotations)
   private executeTool(
     toolCall: ToolCall,
+    content: string,
     collectedAnnotations: AnnotationResult[],
     onAnnotation?: (noteId: string, annotation: AnnotationResult) => void
   ): any {
     const functionName = toolCall.function.name
-    const args = JSON.parse(toolCall.function.arguments || '{}')
+    const schema = TOOL_SCHEMAS[functionName]
+    if (!schema) {
+      throw new Error(`Unknown tool: ${functionName}`)
+    }
+
+    const { args, repaired } = parseToolArguments(toolCall.function.arguments)
+    if (repaired) {
+      this.diagnostics.repairedArguments++
+      // Store the repaired JSON so the replayed history stays valid
+      toolCall.function.arguments = JSON.stringify(args)
+    }
+
+    const errors = validateSchema(args, schema)
+    if (errors.length > 0) {
+      throw new ToolArgumentsError(`Invalid arguments for ${functionName}`, errors)
+    }
 
     if (functionName === 'annotate') {
-      const textSpan = args.textSpan?.trim().replace(/^[.,:;!?]+|[.,:;!?]+$/g, '').trim()
-      if (!textSpan) {
-        throw new Error('TextSpan is empty after cleaning')
-      }
+      const textSpan = this.anchorSpan(args.textSpan, content)
 
       console.log('Annotate:', { textSpan, records: args.records })
 
@@ -478,15 +687,9 @@ export class Analyzer {
       return { success: true, message: 'Annotation added' }
     } else if (functionName === 'getNoteContent') {
       console.log('getNoteContent called')
-      return { content: this.currentContent }
+      return { content }
     } else if (functionName === 'extendList') {
-      const textSpan = args.textSpan?.trim().replace(/^[.,:;!?]+|[.,:;!?]+$/g, '').trim()
-      if (!textSpan) {
-        throw new Error('TextSpan is empty after cleaning')
-      }
-      if (!args.extensions || args.extensions.length === 0) {
-        throw new Error('Extensions array is empty')
-      }
+      const textSpan = this.anchorSpan(args.textSpan, content)
 
       console.log('ExtendList:', { textSpan, extensions: args.extensions })
 
@@ -506,22 +709,8 @@ export class Analyzer {
 
       return { success: true, message: 'List extension added' }
     } else if (functionName === 'connectSpans') {
-      if (!args.textSpans || !Array.isArray(args.textSpans) || args.textSpans.length !== 2) {
-        throw new Error('connectSpans requires exactly 2 text spans')
-      }
-
-      // Clean both text spans
-      const cleanedSpans = args.textSpans.map((span: string) =>
-        span?.trim().replace(/^[.,:;!?]+|[.,:;!?]+$/g, '').trim()
-      )
-
-      if (!cleanedSpans[0] || !cleanedSpans[1]) {
-        throw new Error('One or both text spans are empty after cleaning')
-      }
-
-      if (!args.records || args.records.length === 0) {
-        throw new Error('Records array is empty')
-      }
+      // Anchor both text spans to the note's exact wording
+      const cleanedSpans = args.textSpans.map((span: string) => this.anchorSpan(span, content))
 
       console.log('ConnectSpans:', { textSpans: cleanedSpans, records: args.records })
 
@@ -0,0 +1,86 @@
+import { TextAnchor, TextSpanAnnotation, getTextSpans } from './types'
+import { normalizeText, resolveSpan } from './spanResolver'
+import { TextPositionMap, offsetsToRange } from './textPositions'
+
+// Characters of surrounding text kept on each side of an anchor to tell repeated phrases apart
+const ANCHOR_CONTEXT = 32
+
+export function createAnchor(content: string, start: number, end: number): TextAnchor {
+  return {
+    exact: content.slice(start, end),
+    prefix: content.slice(Math.max(0, start - ANCHOR_CONTEXT), start),
+    suffix: content.slice(end, end + ANCHOR_CONTEXT),
+    start,
+    end
+  }
+}
+
+// Anchor a quoted span (e.g. from the model) to its first good match in the content
+export function anchorFromSpan(content: string, span: string): TextAnchor | null {
+  const { match } = resolveSpan(content, span)
+  return match ? createAnchor(content, match.start, match.end) : null
+}
+
+// Number of matching characters working outward from the span (prefix backwards, suffix forwards)
+function contextScore(content: string, start: number, end: number, anchor: TextAnchor): number {
+  let score = 0
+  for (let i = 1; i <= anchor.prefix.length && start - i >= 0; i++) {
+    if (content[start - i] !== anchor.prefix[anchor.prefix.length - i]) break
+    score++
+  }
+  for (let i = 0; i < anchor.suffix.length && end + i < content.length; i++) {
+    if (content[end + i] !== anchor.suffix[i]) break
+    score++
+  }
+  return score
+}
+
+// Find where a stored anchor sits in (possibly edited) content.
+// Position first, then every occurrence of the quote ranked by context and distance,
+// then approximate matching. Returns null when the anchor is orphaned.
+export function locateAnchor(content: string, anchor: TextAnchor): { start: number; end: number } | null {
+  if (!anchor.exact) return null
+
+  if (content.slice(anchor.start, anchor.end) === anchor.exact) {
+    return { start: anchor.start, end: anchor.end }
+  }
+
+  const normalizedContent = normalizeText(content)
+  const normalizedExact = normalizeText(anchor.exact)
+  let best: { start: number; end: number; score: number; distance: number } | null = null
+
+  let index = normalizedContent.indexOf(normalizedExact)
+  while (index !== -1) {
+    const end = index + normalizedExact.length
+    const score = contextScore(normalizedContent, index, end, anchor)
+    const distance = Math.abs(index - anchor.start)
+    if (!best || score > best.score || (score === best.score && distance < best.distance)) {
+      best = { start: index, end, score, distance }
+    }
+    index = normalizedContent.indexOf(normalizedExact, index + 1)
+  }
+
+  if (best) {
+    return { start: best.start, end: best.end }
+  }
+
+  const { match } = resolveSpan(content, anchor.exact)
+  return match ? { start: match.start, end: match.end } : null
+}
+
+// Plain-text offsets of an annotation's spans (null where a span can't be anchored)
+export function locateAnnotationOffsets(content: string, entry: TextSpanAnnotation): Array<{ start: number; end: number } | null> {
+  return getTextSpans(entry.textSpan).map((span, index) => {
+    const anchor = entry.anchors?.[index]
+    // Annotations saved before anchors existed only have their quote
+    const located = anchor ? locateAnchor(content, anchor) : resolveSpan(content, span).match
+    return located ? { start: located.start, end: located.end } : null
+  })
+}
+
+// Document ranges of an annotation's spans (null where a span can't be anchored)
+export function locateAnnotationRanges(map: TextPositionMap, entry: TextSpanAnnotation): Array<{ from: number; to: number } | null> {
+  return locateAnnotationOffsets(map.text, entry).map(located =>
+    located ? offsetsToRange(map, located.start, located.end) : null
+  )
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest'
+import { toSnapshot, hashSnapshot, snapshotAnnotations, fromSnapshot } from './annotationSnapshots'
+import { anchorFromSpan } from './anchoring'
+import { TextSpanAnnotation } from './types'
+
+const CONTENT = 'The river flooded the valley in the spring of 1927.\nFarmers moved to higher ground.'
+
+function annotate(content: string): TextSpanAnnotation {
+  return {
+    annotationId: 'ann-1',
+    noteId: 'note-1',
+    textSpan: 'Farmers moved to higher ground',
+    annotation: { type: 'reference', records: [{ title: 'Rising Tide', author: 'John M. Barry' }] },
+    anchors: [anchorFromSpan(content, 'Farmers moved to higher ground')]
+  }
+}
+
+describe('annotation snapshots', () => {
+  it('hashes an unchanged annotation the same after unrelated text is edited', () => {
+    const before = annotate(CONTENT)
+    const after = annotate(`A new opening line.\n${CONTENT.replace('1927', 'that year')}`)
+    expect(after.anchors[0].start).not.toBe(before.anchors[0].start)
+
+    expect(hashSnapshot(toSnapshot(after))).toBe(hashSnapshot(toSnapshot(before)))
+  })
+
+  it('hashes a changed annotation differently', () => {
+    const entry = annotate(CONTENT)
+    const changed = { ...entry, annotation: { type: 'reference' as const, records: [{ title: 'Another source' }] } }
+    expect(hashSnapshot(toSnapshot(changed))).not.toBe(hashSnapshot(toSnapshot(entry)))
+  })
+
+  it('stores one body for checkpoints that saw the annotation at different positions', () => {
+    const first = snapshotAnnotations([annotate(CONTENT)])
+    const second = snapshotAnnotations([annotate(`Edited.\n${CONTENT}`)])
+
+    expect(second.hashes).toEqual(first.hashes)
+    expect(Object.keys({ ...first.snapshots, ...second.snapshots })).toHaveLength(1)
+    expect(second.anchors['ann-1']).not.toEqual(first.anchors['ann-1'])
+  })
+
+  it('brings the annotation back with the checkpoint\'s anchors', () => {
+    const entry = annotate(CONTENT)
+    const { hashes, anchors, snapshots } = snapshotAnnotations([entry])
+    expect(fromSnapshot(snapshots[hashes['ann-1']], 'ann-1', 'note-1', anchors['ann-1'])).toEqual(entry)
+  })
+})
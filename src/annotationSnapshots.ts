@@ -0,0 +1,90 @@
+import { TextSpanAnnotation, AnnotationSnapshot, TextAnchor } from './types'
+import { StorageAdapter } from './storageAdapter'
+
+// Content-addressed annotation bodies for checkpoints. A body is stored once under the hash
+// of its contents, so checkpoints that saw the same annotation unchanged share one copy.
+// Anchors are left out of the body - they shift whenever text before them is edited.
+
+// JSON with object keys sorted, so equal bodies always hash the same
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([key, v]) => `${JSON.stringify(key)}:${stableStringify(v)}`).join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+// cyrb53 - a fast 53-bit string hash. Not cryptographic; it only has to tell bodies apart.
+function cyrb53(text: string, seed: number): string {
+  let h1 = 0xdeadbeef ^ seed
+  let h2 = 0x41c6ce57 ^ seed
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i)
+    h1 = Math.imul(h1 ^ ch, 2654435761)
+    h2 = Math.imul(h2 ^ ch, 1597334677)
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0')
+}
+
+export function toSnapshot(entry: TextSpanAnnotation): AnnotationSnapshot {
+  const { annotationId: _id, noteId: _note, orphaned: _orphaned, anchors: _anchors, ...snapshot } = entry
+  return snapshot
+}
+
+export function hashSnapshot(snapshot: AnnotationSnapshot): string {
+  const text = stableStringify(snapshot)
+  // Two seeds for a 106-bit key - collisions would silently swap annotation bodies
+  return cyrb53(text, 0) + cyrb53(text, 1)
+}
+
+// The annotation a snapshot was taken of, back in a note
+export function fromSnapshot(snapshot: AnnotationSnapshot, annotationId: string, noteId: string, anchors?: TextAnchor[]): TextSpanAnnotation {
+  return { ...snapshot, annotationId, noteId, ...(anchors ? { anchors } : {}) } as TextSpanAnnotation
+}
+
+// Snapshot a set of annotations - annotationId -> hash and anchors for the checkpoint, and the bodies by hash
+export function snapshotAnnotations(annotations: TextSpanAnnotation[]): {
+  hashes: Record<string, string>
+  anchors: Record<string, TextAnchor[]>
+  snapshots: Record<string, AnnotationSnapshot>
+} {
+  const hashes: Record<string, string> = {}
+  const anchors: Record<string, TextAnchor[]> = {}
+  const snapshots: Record<string, AnnotationSnapshot> = {}
+  annotations.forEach(entry => {
+    const snapshot = toSnapshot(entry)
+    const hash = hashSnapshot(snapshot)
+    hashes[entry.annotationId] = hash
+    if (entry.anchors) anchors[entry.annotationId] = entry.anchors
+    snapshots[hash] = snapshot
+  })
+  return { hashes, anchors, snapshots }
+}
+
+// Store the bodies that aren't stored yet
+export async function saveSnapshots(storage: StorageAdapter, snapshots: Record<string, AnnotationSnapshot>): Promise<void> {
+  for (const [hash, snapshot] of Object.entries(snapshots)) {
+    if (!(await storage.getSnapshot(hash))) {
+      await storage.putSnapshot(hash, snapshot)
+    }
+  }
+}
+
+// Drop snapshots no checkpoint refers to any more (after checkpoints are deleted)
+export async function deleteUnreferencedSnapshots(storage: StorageAdapter): Promise<number> {
+  const referenced = new Set<string>()
+  Object.values(await storage.getAllCheckpoints()).flat().forEach(checkpoint => {
+    Object.values(checkpoint.annotationSnapshots || {}).forEach(hash => referenced.add(hash))
+  })
+
+  const unreferenced = Object.keys(await storage.getAllSnapshots()).filter(hash => !referenced.has(hash))
+  for (const hash of unreferenced) await storage.deleteSnapshot(hash)
+  return unreferenced.length
+}
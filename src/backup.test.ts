@@ -0,0 +1,43 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach } from 'vitest'
+import { restoreBackup, WorkspaceBackup, BACKUP_VERSION } from './backup'
+import { SCHEMA_VERSIONS } from './migrations'
+import { updateSettings } from './settings'
+import { NoteType, TextSpanAnnotation } from './types'
+
+const RECORD = { title: 'Rising Tide', author: 'John M. Barry' }
+
+function annotation(annotationId: string, noteId: string): TextSpanAnnotation {
+  return { annotationId, noteId, textSpan: 'the valley', annotation: { type: 'reference', records: [RECORD] } }
+}
+
+const LOCAL_NOTE: NoteType = { id: 'note-1', title: 'Floods', content: 'The river flooded the valley.', createdAt: 1, updatedAt: 1 }
+
+const IMPORTED_NOTE: NoteType = {
+  id: 'note-2',
+  title: 'Levees',
+  content: 'The levees broke in the valley.[^fn-abc]',
+  createdAt: 2,
+  updatedAt: 2,
+  footnotes: [{ footnoteId: 'fn-abc', record: RECORD, annotationId: 'ann-1' }]
+}
+
+function backupOf(notes: NoteType[], annotations: TextSpanAnnotation[]): WorkspaceBackup {
+  return { app: 'half-formed-thought', version: BACKUP_VERSION, exportedAt: '', schemaVersions: SCHEMA_VERSIONS, notes, annotations, conversations: {}, checkpoints: {}, snapshots: {} }
+}
+
+describe('restoreBackup', () => {
+  beforeEach(() => {
+    updateSettings({ saveMessages: false })
+  })
+
+  it('points footnotes at imported annotations that were given new ids', async () => {
+    const current = { notes: [LOCAL_NOTE], annotations: new Map([[LOCAL_NOTE.id, [annotation('ann-1', LOCAL_NOTE.id)]]]) }
+    const { notes, annotations } = await restoreBackup(backupOf([IMPORTED_NOTE], [annotation('ann-1', IMPORTED_NOTE.id)]), current, 'merge')
+
+    const [imported] = annotations.get(IMPORTED_NOTE.id)
+    expect(imported.annotationId).not.toBe('ann-1')
+    expect(notes.find(note => note.id === IMPORTED_NOTE.id).footnotes[0].annotationId).toBe(imported.annotationId)
+    expect(annotations.get(LOCAL_NOTE.id)[0].annotationId).toBe('ann-1')
+  })
+})
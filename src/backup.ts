@@ -0,0 +1,290 @@
+import { NoteType, TextSpanAnnotation, Checkpoint, AnnotationSnapshot } from './types'
+import { Message } from './LLMService'
+import { generateId } from './storage'
+import { getSettings } from './settings'
+import { getStorage, handleStorageError } from './storageAdapter'
+import { SchemaVersions, SCHEMA_VERSIONS, BASELINE_VERSIONS, migrateStoredData } from './migrations'
+import { deleteUnreferencedSnapshots } from './annotationSnapshots'
+
+// Whole-workspace backup: notes, annotations, conversations and checkpoints (with the
+// annotation snapshots they refer to) in one versioned JSON bundle that can be restored on another machine
+
+const APP_ID = 'half-formed-thought'
+
+// Bump when the bundle shape changes, and add a migration from the previous version.
+// Changes to the records inside go through the schema migrations instead.
+export const BACKUP_VERSION = 3
+
+export interface WorkspaceBackup {
+  app: string
+  version: number
+  exportedAt: string
+  schemaVersions: SchemaVersions // Schema of the records below
+  notes: NoteType[]
+  annotations: TextSpanAnnotation[]
+  conversations: Record<string, Message[]> // noteId -> messages
+  checkpoints: Record<string, Checkpoint[]> // noteId -> checkpoints
+  snapshots: Record<string, AnnotationSnapshot> // hash -> annotation body, shared by checkpoints
+}
+
+// What to do when an imported note has the same ID as one already here
+export type BackupCollisionMode = 'merge' | 'replace' // keep both / overwrite the local note
+
+export interface RestoreSummary {
+  added: number
+  replaced: number
+  duplicated: number // Kept alongside the local note under a new ID
+  skipped: number // Identical to the local note
+  messagesRestored: boolean // False when saving conversations is turned off
+}
+
+export interface RestoreResult {
+  notes: NoteType[]
+  annotations: Map<string, TextSpanAnnotation[]>
+  summary: RestoreSummary
+}
+
+export class BackupError extends Error {
+  errors: string[]
+
+  constructor(message: string, errors: string[] = []) {
+    super(message)
+    this.name = 'BackupError'
+    this.errors = errors
+  }
+}
+
+// Migrations from each older bundle version to the next
+const BACKUP_MIGRATIONS: Record<number, (bundle: any) => any> = {
+  // Unversioned bundles are raw storage dumps
+  0: (bundle) => ({
+    ...bundle,
+    app: APP_ID,
+    version: 1,
+    annotations: bundle.annotations || [],
+    conversations: bundle.conversations || {},
+    checkpoints: bundle.checkpoints || {}
+  }),
+  // Records in bundles from before schema versions were recorded
+  1: (bundle) => ({ ...bundle, version: 2, schemaVersions: BASELINE_VERSIONS }),
+  // Checkpoints only kept annotation IDs
+  2: (bundle) => ({ ...bundle, version: 3, snapshots: {} })
+}
+
+// Notes and annotations come from memory (they may not be persisted yet); conversations
+// and checkpoints only ever live in storage
+export async function createBackup(notes: NoteType[], annotations: Map<string, TextSpanAnnotation[]>): Promise<WorkspaceBackup> {
+  let conversations: Record<string, Message[]> = {}
+  let checkpoints: Record<string, Checkpoint[]> = {}
+  let snapshots: Record<string, AnnotationSnapshot> = {}
+  try {
+    const storage = await getStorage()
+    conversations = await storage.getAllMessages()
+    checkpoints = await storage.getAllCheckpoints()
+    snapshots = await storage.getAllSnapshots()
+  } catch (error) {
+    handleStorageError(error, 'reading conversations for the backup')
+  }
+
+  return {
+    app: APP_ID,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    schemaVersions: SCHEMA_VERSIONS,
+    notes,
+    annotations: Array.from(annotations.values()).flat(),
+    conversations,
+    checkpoints,
+    snapshots
+  }
+}
+
+function isRecordOfArrays(value: unknown): boolean {
+  return !!value && typeof value === 'object' && !Array.isArray(value) && Object.values(value).every(Array.isArray)
+}
+
+// Bundle structure; the records themselves are checked by the schema validation
+function validateBackup(bundle: WorkspaceBackup): string[] {
+  const errors: string[] = []
+
+  if (!Array.isArray(bundle.notes)) {
+    return ['notes must be an array']
+  }
+
+  const noteIds = new Set<string>()
+  bundle.notes.forEach((note, i) => {
+    if (!note || typeof note.id !== 'string' || !note.id) return
+    if (noteIds.has(note.id)) errors.push(`notes[${i}] repeats id ${note.id}`)
+    noteIds.add(note.id)
+  })
+
+  if (!Array.isArray(bundle.annotations)) {
+    errors.push('annotations must be an array')
+  } else {
+    bundle.annotations.forEach(ann => {
+      if (ann && typeof ann.annotationId === 'string' && !noteIds.has(ann.noteId)) {
+        errors.push(`annotation ${ann.annotationId} belongs to a note that isn't in the backup`)
+      }
+    })
+  }
+
+  if (!isRecordOfArrays(bundle.conversations)) {
+    errors.push('conversations must map note IDs to message lists')
+  }
+  if (!isRecordOfArrays(bundle.checkpoints)) {
+    errors.push('checkpoints must map note IDs to checkpoint lists')
+  }
+  if (!bundle.snapshots || typeof bundle.snapshots !== 'object' || Array.isArray(bundle.snapshots)) {
+    errors.push('snapshots must map hashes to annotation snapshots')
+  }
+
+  return errors
+}
+
+// Parse, migrate and validate a backup file. Throws BackupError when it can't be used.
+export function parseBackup(text: string): WorkspaceBackup {
+  let raw: any
+  try {
+    raw = JSON.parse(text)
+  } catch (error) {
+    throw new BackupError('Backup file is not valid JSON')
+  }
+
+  if (!raw || typeof raw !== 'object' || (raw.app !== undefined && raw.app !== APP_ID)) {
+    throw new BackupError('Not a backup of this app')
+  }
+
+  let version = typeof raw.version === 'number' ? raw.version : 0
+  if (version > BACKUP_VERSION) {
+    throw new BackupError(`Backup was made by a newer version of the app (format ${version})`)
+  }
+
+  let bundle = raw
+  while (version < BACKUP_VERSION) {
+    const migrate = BACKUP_MIGRATIONS[version]
+    if (!migrate) {
+      throw new BackupError(`No migration from backup format ${version}`)
+    }
+    bundle = migrate(bundle)
+    version = bundle.version
+  }
+
+  const errors = validateBackup(bundle)
+  if (errors.length > 0) {
+    throw new BackupError('Backup file is damaged or incomplete', errors)
+  }
+
+  // Bring the records up to the current schema
+  const migrated = migrateStoredData(bundle, bundle.schemaVersions)
+  if (migrated.errors.length > 0) {
+    throw new BackupError('Backup file is damaged or incomplete', migrated.errors)
+  }
+
+  return { ...bundle, ...migrated.data, schemaVersions: migrated.to } as WorkspaceBackup
+}
+
+function isSameNote(a: NoteType, b: NoteType): boolean {
+  return a.updatedAt === b.updatedAt && a.content === b.content && a.title === b.title
+}
+
+// Annotation ID keyed record with renamed annotations under their new IDs
+function renameKeys<T>(record: Record<string, T>, renamed: Map<string, string>): Record<string, T> {
+  return Object.fromEntries(Object.entries(record).map(([id, value]) => [renamed.get(id) || id, value]))
+}
+
+// Merge a backup into the current workspace. Returns the new notes/annotations for the app
+// to adopt; conversations and checkpoints are written to storage here.
+export async function restoreBackup(
+  backup: WorkspaceBackup,
+  current: { notes: NoteType[]; annotations: Map<string, TextSpanAnnotation[]> },
+  mode: BackupCollisionMode
+): Promise<RestoreResult> {
+  const summary: RestoreSummary = { added: 0, replaced: 0, duplicated: 0, skipped: 0, messagesRestored: false }
+  const notes = [...current.notes]
+  const annotations = new Map(current.annotations)
+  const conversations: Record<string, Message[]> = {} // Only the notes being restored
+  const checkpoints: Record<string, Checkpoint[]> = {}
+  const imported: NoteType[] = []
+
+  const usedAnnotationIds = new Set(Array.from(annotations.values()).flat().map(ann => ann.annotationId))
+
+  backup.notes.forEach(incoming => {
+    const localIndex = notes.findIndex(note => note.id === incoming.id)
+    const noteAnnotations = backup.annotations.filter(ann => ann.noteId === incoming.id)
+    let note = incoming
+
+    if (localIndex !== -1 && isSameNote(notes[localIndex], incoming)) {
+      summary.skipped++
+      return
+    }
+
+    const replacing = localIndex !== -1 && mode === 'replace'
+    if (replacing) {
+      annotations.get(incoming.id)?.forEach(ann => usedAnnotationIds.delete(ann.annotationId))
+      summary.replaced++
+    } else if (localIndex !== -1) {
+      note = { ...incoming, id: generateId(), title: `${incoming.title || 'Untitled'} (imported)` }
+      summary.duplicated++
+    } else {
+      summary.added++
+    }
+
+    // Annotation IDs must stay unique across the workspace; footnotes and checkpoints follow any renames
+    const renamed = new Map<string, string>()
+    annotations.set(note.id, noteAnnotations.map(ann => {
+      let annotationId = ann.annotationId
+      if (usedAnnotationIds.has(annotationId)) {
+        annotationId = generateId()
+        renamed.set(ann.annotationId, annotationId)
+      }
+      usedAnnotationIds.add(annotationId)
+      return { ...ann, annotationId, noteId: note.id }
+    }))
+
+    if (note.footnotes) {
+      note = { ...note, footnotes: note.footnotes.map(footnote => ({ ...footnote, annotationId: renamed.get(footnote.annotationId) || footnote.annotationId })) }
+    }
+    if (replacing) {
+      notes[localIndex] = note
+    } else {
+      imported.push(note)
+    }
+
+    conversations[note.id] = backup.conversations[incoming.id] || []
+    checkpoints[note.id] = (backup.checkpoints[incoming.id] || []).map(checkpoint => ({
+      ...checkpoint,
+      annotationIds: checkpoint.annotationIds.map(id => renamed.get(id) || id),
+      ...(checkpoint.annotationSnapshots ? { annotationSnapshots: renameKeys(checkpoint.annotationSnapshots, renamed) } : {}),
+      ...(checkpoint.annotationAnchors ? { annotationAnchors: renameKeys(checkpoint.annotationAnchors, renamed) } : {})
+    }))
+  })
+
+  if (getSettings().saveMessages) {
+    try {
+      const storage = await getStorage()
+      for (const [noteId, messages] of Object.entries(conversations)) {
+        await storage.putMessages(noteId, messages)
+      }
+      // Snapshots go in before the checkpoints that refer to them
+      const hashes = new Set(Object.values(checkpoints).flat().flatMap(checkpoint => Object.values(checkpoint.annotationSnapshots || {})))
+      for (const hash of hashes) {
+        if (backup.snapshots[hash]) await storage.putSnapshot(hash, backup.snapshots[hash])
+      }
+      for (const [noteId, noteCheckpoints] of Object.entries(checkpoints)) {
+        await storage.deleteCheckpoints(noteId)
+        for (const checkpoint of noteCheckpoints) await storage.putCheckpoint(noteId, checkpoint)
+      }
+      // Replaced checkpoints may have been the last to use some snapshots
+      await deleteUnreferencedSnapshots(storage)
+      summary.messagesRestored = true
+    } catch (error) {
+      handleStorageError(error, 'restoring conversations')
+    }
+  }
+
+  return { notes: [...imported, ...notes], annotations, summary }
+}
+
+export function backupFileName(): string {
+  return `${APP_ID}-backup-${new Date().toISOString().slice(0, 10)}.json`
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest'
+import { toCSLJSON, toRIS } from './bibliography'
+
+function authorsOf(author: string) {
+  return JSON.parse(toCSLJSON([{ title: 'A title', author }]))[0].author
+}
+
+describe('author parsing', () => {
+  it('reads a comma between single names as two authors', () => {
+    expect(authorsOf('Smith, Jones')).toEqual([{ literal: 'Smith' }, { literal: 'Jones' }])
+  })
+
+  it('reads "Family, Given" inside names separated with and or ;', () => {
+    expect(authorsOf('Smith, John and Doe, Jane')).toEqual([
+      { family: 'Smith', given: 'John' },
+      { family: 'Doe', given: 'Jane' }
+    ])
+    expect(authorsOf('Smith, John; Doe, Jane')).toEqual([
+      { family: 'Smith', given: 'John' },
+      { family: 'Doe', given: 'Jane' }
+    ])
+  })
+
+  it('pairs family names with their initials', () => {
+    expect(authorsOf('Smith, J.')).toEqual([{ family: 'Smith', given: 'J.' }])
+    expect(authorsOf('Smith, J. R., Doe, K.')).toEqual([
+      { family: 'Smith', given: 'J. R.' },
+      { family: 'Doe', given: 'K.' }
+    ])
+  })
+
+  it('splits comma lists ending in and', () => {
+    expect(authorsOf('John Smith, Jane Doe and Ann Lee')).toEqual([
+      { family: 'Smith', given: 'John' },
+      { family: 'Doe', given: 'Jane' },
+      { family: 'Lee', given: 'Ann' }
+    ])
+  })
+})
+
+describe('toRIS', () => {
+  it('keeps every field on one line', () => {
+    const ris = toRIS([{ title: 'A title\nacross lines', author: 'Jane\nDoe', domain: 'Some\r\ndomain', description: 'Line one\n\nline two' }])
+    expect(ris.split('\r\n')).toEqual([
+      'TY  - GEN',
+      'TI  - A title across lines',
+      'AU  - Doe, Jane',
+      'KW  - Some domain',
+      'AB  - Line one line two',
+      'ER  - ',
+      ''
+    ])
+  })
+})
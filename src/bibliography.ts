@@ -0,0 +1,222 @@
+import { RecordType, TextSpanAnnotation } from './types'
+import { toFileSlug } from './utils'
+
+// Reading list export: the records behind reference and connection annotations, written in
+// formats reference managers (Zotero, etc.) import directly
+
+export type BibliographyFormat = 'bibtex' | 'csl-json' | 'ris'
+
+export interface BibliographyOptions {
+  groupByDomain?: boolean // Order entries by domain and, where the format allows, label the groups
+}
+
+interface PersonName {
+  family: string
+  given?: string
+}
+
+const FORMAT_EXTENSIONS: Record<BibliographyFormat, string> = {
+  'bibtex': 'bib',
+  'csl-json': 'json',
+  'ris': 'ris'
+}
+
+const FORMAT_MIME_TYPES: Record<BibliographyFormat, string> = {
+  'bibtex': 'application/x-bibtex',
+  'csl-json': 'application/vnd.citationstyles.csl+json',
+  'ris': 'application/x-research-info-systems'
+}
+
+const UNGROUPED_DOMAIN = 'Other'
+
+// "A and B", "A & B", "A; B"
+const AUTHOR_SEPARATOR = /\s+(?:and|&)\s+|\s*;\s*/
+
+// Initials only, as in "Smith, J." or "Smith, J. R."
+const INITIALS = /^(?:\p{Lu}\.?[\s-]*)+$/u
+
+function normalizeKey(value: string | undefined): string {
+  return (value || '').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim()
+}
+
+// Records without a title or author can't be cited
+function isCitable(record: RecordType): boolean {
+  return !!(record.title?.trim() || record.author?.trim())
+}
+
+// Every citable record in the annotations, deduplicated by title/author.
+// Later duplicates fill in fields the first occurrence was missing.
+export function collectRecords(annotations: TextSpanAnnotation[]): RecordType[] {
+  const records = new Map<string, RecordType>()
+
+  annotations.forEach(entry => {
+    const { annotation } = entry
+    if (annotation.type !== 'reference' && annotation.type !== 'connection') return
+
+    annotation.records.filter(isCitable).forEach(record => {
+      const key = `${normalizeKey(record.title)}|${normalizeKey(record.author)}`
+      const existing = records.get(key)
+      records.set(key, existing ? { ...record, ...existing } : { ...record })
+    })
+  })
+
+  return Array.from(records.values())
+}
+
+function sortByDomain(records: RecordType[]): RecordType[] {
+  return [...records].sort((a, b) =>
+    (a.domain || UNGROUPED_DOMAIN).localeCompare(b.domain || UNGROUPED_DOMAIN)
+  )
+}
+
+// Individual names in an author string. A comma means "Family, Given" only inside names that are
+// already separated ("Smith, John and Doe, Jane") or before initials ("Smith, J., Doe, K.");
+// otherwise it separates names ("Smith, Jones", "Smith, Jones and Brown").
+function splitAuthors(author: string): string[] {
+  const names = author.split(AUTHOR_SEPARATOR).map(name => name.trim()).filter(Boolean)
+  if (names.length > 1 && names.every(name => name.split(',').length === 2)) return names
+
+  return names.flatMap(name => {
+    const parts = name.split(',').map(part => part.trim()).filter(Boolean)
+    const inverted = parts.length % 2 === 0 && parts.every((part, i) => i % 2 === 0 || INITIALS.test(part))
+    return inverted ? parts.filter((_, i) => i % 2 === 0).map((family, i) => `${family}, ${parts[i * 2 + 1]}`) : parts
+  })
+}
+
+function parseAuthors(author: string | undefined): PersonName[] {
+  if (!author) return []
+  return splitAuthors(author).map(name => {
+    // Already "Family, Given"
+    const comma = name.indexOf(',')
+    if (comma !== -1) {
+      return { family: name.slice(0, comma).trim(), given: name.slice(comma + 1).trim() || undefined }
+    }
+    const words = name.split(/\s+/)
+    if (words.length === 1) return { family: name }
+    return { family: words[words.length - 1], given: words.slice(0, -1).join(' ') }
+  })
+}
+
+function formatName(person: PersonName): string {
+  return person.given ? `${person.family}, ${person.given}` : person.family
+}
+
+// Group records for formats that can label sections
+function groupRecords(records: RecordType[]): Array<[string, RecordType[]]> {
+  const groups = new Map<string, RecordType[]>()
+  sortByDomain(records).forEach(record => {
+    const domain = record.domain || UNGROUPED_DOMAIN
+    groups.set(domain, [...(groups.get(domain) || []), record])
+  })
+  return Array.from(groups.entries())
+}
+
+function escapeBibTeX(value: string): string {
+  return value
+    .replace(/\\/g, '\\textbackslash{}')
+    .replace(/([{}&%$#_])/g, '\\$1')
+    .replace(/~/g, '\\textasciitilde{}')
+    .replace(/\^/g, '\\textasciicircum{}')
+}
+
+// authorTitle-style key, made unique with a/b/c suffixes
+function citationKey(record: RecordType, usedKeys: Set<string>): string {
+  const [firstAuthor] = parseAuthors(record.author)
+  const titleWord = (record.title || '').split(/\s+/).find(word => word.length > 3) || record.title || ''
+  const base = (`${firstAuthor?.family || ''}${titleWord}`)
+    .normalize('NFD')
+    .replace(/[^A-Za-z0-9]/g, '')
+    .toLowerCase() || 'untitled'
+
+  let key = base
+  for (let i = 0; usedKeys.has(key); i++) {
+    key = `${base}${String.fromCharCode(97 + (i % 26))}${i >= 26 ? Math.floor(i / 26) : ''}`
+  }
+  usedKeys.add(key)
+  return key
+}
+
+function bibTeXEntry(record: RecordType, key: string): string {
+  const authors = parseAuthors(record.author)
+  const fields: Array<[string, string | undefined]> = [
+    ['title', record.title],
+    ['author', authors.length > 0 ? authors.map(formatName).join(' and ') : undefined],
+    ['keywords', record.domain],
+    ['abstract', record.description]
+  ]
+
+  const body = fields
+    .filter((field): field is [string, string] => !!field[1])
+    .map(([name, value]) => `  ${name} = {${escapeBibTeX(value)}}`)
+    .join(',\n')
+  return `@misc{${key},\n${body}\n}`
+}
+
+export function toBibTeX(records: RecordType[], options: BibliographyOptions = {}): string {
+  const usedKeys = new Set<string>()
+
+  if (options.groupByDomain) {
+    return groupRecords(records).map(([domain, group]) =>
+      [`@comment{${escapeBibTeX(domain)}}`, ...group.map(record => bibTeXEntry(record, citationKey(record, usedKeys)))].join('\n\n')
+    ).join('\n\n') + '\n'
+  }
+
+  return records.map(record => bibTeXEntry(record, citationKey(record, usedKeys))).join('\n\n') + '\n'
+}
+
+// CSL-JSON has no section headings, so grouping only orders the items
+export function toCSLJSON(records: RecordType[], options: BibliographyOptions = {}): string {
+  const ordered = options.groupByDomain ? sortByDomain(records) : records
+  const items = ordered.map((record, index) => {
+    const authors = parseAuthors(record.author)
+    return {
+      id: `item-${index + 1}`,
+      type: 'document',
+      ...(record.title ? { title: record.title } : {}),
+      ...(authors.length > 0 ? {
+        author: authors.map(person => (person.given ? { family: person.family, given: person.given } : { literal: person.family }))
+      } : {}),
+      ...(record.domain ? { keyword: record.domain } : {}),
+      ...(record.description ? { abstract: record.description } : {})
+    }
+  })
+  return JSON.stringify(items, null, 2)
+}
+
+// RIS is one field per line, so values can't contain line breaks
+function risField(tag: string, value: string): string {
+  return `${tag}  - ${value.replace(/\s+/g, ' ').trim()}`
+}
+
+// RIS has no section headings either - the domain goes in as a keyword
+export function toRIS(records: RecordType[], options: BibliographyOptions = {}): string {
+  const ordered = options.groupByDomain ? sortByDomain(records) : records
+  return ordered.map(record => {
+    const lines = [risField('TY', 'GEN')]
+    if (record.title) lines.push(risField('TI', record.title))
+    parseAuthors(record.author).forEach(person => lines.push(risField('AU', formatName(person))))
+    if (record.domain) lines.push(risField('KW', record.domain))
+    if (record.description) lines.push(risField('AB', record.description))
+    lines.push('ER  - ')
+    return lines.join('\r\n')
+  }).join('\r\n\r\n') + '\r\n'
+}
+
+export function formatBibliography(records: RecordType[], format: BibliographyFormat, options: BibliographyOptions = {}): string {
+  switch (format) {
+    case 'bibtex':
+      return toBibTeX(records, options)
+    case 'csl-json':
+      return toCSLJSON(records, options)
+    case 'ris':
+      return toRIS(records, options)
+  }
+}
+
+export function bibliographyFileName(name: string, format: BibliographyFormat): string {
+  return `${toFileSlug(name, 'bibliography')}.${FORMAT_EXTENSIONS[format]}`
+}
+
+export function bibliographyMimeType(format: BibliographyFormat): string {
+  return FORMAT_MIME_TYPES[format]
+}
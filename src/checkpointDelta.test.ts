@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest'
+import { encodeCheckpoint, resolveContent, applyDelta, createDelta, KEYFRAME_INTERVAL } from './checkpointDelta'
+import { Checkpoint } from './types'
+
+const WORDS = ['the', 'river', 'flooded', 'valley', 'spring', 'farmers', 'moved', 'higher', 'ground', 'levee', 'broke', 'water', 'town', 'record', 'rain']
+
+// Seeded so the note and its edits are the same on every run
+function random(seed: number): () => number {
+  let state = seed
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648
+    return state / 2147483648
+  }
+}
+
+function makeNote(wordCount: number, next: () => number): string {
+  const words: string[] = []
+  for (let i = 0; i < wordCount; i++) {
+    words.push(WORDS[Math.floor(next() * WORDS.length)])
+    if (i % 120 === 119) words.push('\n\n')
+  }
+  return words.join(' ')
+}
+
+// A few words changed somewhere and a sentence added, roughly one analysis' worth of writing
+function edit(content: string, next: () => number): string {
+  const words = content.split(' ')
+  for (let i = 0; i < 5; i++) {
+    words[Math.floor(next() * words.length)] = WORDS[Math.floor(next() * WORDS.length)]
+  }
+  words.splice(Math.floor(next() * words.length), 0, makeNote(12, next))
+  return words.join(' ')
+}
+
+function checkpoint(index: number): Checkpoint {
+  return {
+    checkpointId: `cp-${index}`,
+    parentId: index === 0 ? null : `cp-${index - 1}`,
+    messageIndex: index,
+    timestamp: index,
+    annotationIds: []
+  }
+}
+
+describe('checkpoint deltas', () => {
+  it('round-trips a delta', () => {
+    const from = 'The river flooded the valley.\nFarmers moved.'
+    const to = 'The river flooded the whole valley.\nFarmers moved to higher ground.'
+    expect(applyDelta(from, createDelta(from, to))).toBe(to)
+  })
+
+  it('rebuilds every checkpoint of a 20k-word note with 200 checkpoints, in far less space than full copies', () => {
+    const next = random(42)
+    const contents = [makeNote(20000, next)]
+    for (let i = 1; i < 200; i++) {
+      contents.push(edit(contents[i - 1], next))
+    }
+
+    const byId = new Map<string, Checkpoint>()
+    contents.forEach((content, i) => {
+      const stored = encodeCheckpoint(checkpoint(i), content, byId, () => contents[i - 1])
+      byId.set(stored.checkpointId, stored)
+    })
+
+    const stored = Array.from(byId.values())
+    expect(stored.filter(c => c.content !== undefined)).toHaveLength(Math.ceil(200 / KEYFRAME_INTERVAL))
+    contents.forEach((content, i) => {
+      expect(resolveContent(byId.get(`cp-${i}`), byId, new Map())).toBe(content)
+    })
+
+    const fullSize = JSON.stringify(contents).length
+    expect(JSON.stringify(stored).length).toBeLessThan(fullSize * 0.15)
+  }, 60000)
+
+  it('stores a keyframe, without diffing at length, when the whole note is rewritten', () => {
+    const next = random(7)
+    const parent = { ...checkpoint(0), content: makeNote(20000, next) }
+    const rewritten = makeNote(20000, next)
+    const byId = new Map([[parent.checkpointId, parent]])
+
+    const started = Date.now()
+    const stored = encodeCheckpoint(checkpoint(1), rewritten, byId, () => parent.content)
+
+    expect(Date.now() - started).toBeLessThan(2000)
+    expect(stored.content).toBe(rewritten)
+    expect(stored.delta).toBeUndefined()
+  })
+})
@@ -0,0 +1,86 @@
+import { diffWordsWithSpace } from 'diff'
+import { Checkpoint, TextDelta } from './types'
+
+// Delta-compressed checkpoint content. Most checkpoints store only what changed since their
+// parent; every KEYFRAME_INTERVAL steps down a branch (and at each root) one keeps the full
+// text, so rebuilding any checkpoint replays at most that many deltas.
+
+export const KEYFRAME_INTERVAL = 10
+
+// Store the full text instead when the delta would be more than this share of its size
+const MAX_DELTA_RATIO = 0.5
+
+// Longest a delta's diff may run (ms). Diffing costs grow with how much changed, and a
+// rewrite big enough to hit this wouldn't have made a small delta anyway.
+const DIFF_TIMEOUT = 100
+
+// Word-level so edits stay small; whitespace counts, so the old text is reproduced exactly.
+// Null if the diff was abandoned.
+export function createDelta(from: string, to: string): TextDelta | null {
+  const changes = diffWordsWithSpace(from, to, { timeout: DIFF_TIMEOUT })
+  if (!changes) return null
+  return changes.map(change =>
+    change.added ? change.value : change.removed ? -change.value.length : change.value.length
+  )
+}
+
+export function applyDelta(from: string, delta: TextDelta): string {
+  const parts: string[] = []
+  let cursor = 0
+  for (const op of delta) {
+    if (typeof op === 'string') {
+      parts.push(op)
+    } else if (op > 0) {
+      parts.push(from.slice(cursor, cursor + op))
+      cursor += op
+    } else {
+      cursor -= op
+    }
+  }
+  return parts.join('')
+}
+
+// Deltas between this checkpoint and the keyframe it's rebuilt from
+export function deltaDepth(checkpoint: Checkpoint, byId: Map<string, Checkpoint>): number {
+  let depth = 0
+  for (let c = checkpoint; c && c.content === undefined && depth <= byId.size; c = byId.get(c.parentId)) {
+    depth++
+  }
+  return depth
+}
+
+// A checkpoint in stored form for the given content: a delta from its parent, or a keyframe.
+// byId must hold the parent as stored; parentContent is the parent's full text.
+export function encodeCheckpoint(checkpoint: Checkpoint, content: string, byId: Map<string, Checkpoint>, parentContent: (parent: Checkpoint) => string): Checkpoint {
+  const { content: _content, delta: _delta, ...rest } = checkpoint
+  const parent = byId.get(checkpoint.parentId)
+  if (!parent || deltaDepth(parent, byId) + 1 >= KEYFRAME_INTERVAL) {
+    return { ...rest, content }
+  }
+
+  const delta = createDelta(parentContent(parent), content)
+  return !delta || JSON.stringify(delta).length > content.length * MAX_DELTA_RATIO ? { ...rest, content } : { ...rest, delta }
+}
+
+// Rebuild a checkpoint's content from the nearest keyframe (or cached ancestor) down
+export function resolveContent(checkpoint: Checkpoint, byId: Map<string, Checkpoint>, cache: Map<string, string>): string {
+  const chain: Checkpoint[] = []
+  let base: string | null = null
+  for (let c = checkpoint; c; c = byId.get(c.parentId)) {
+    if (cache.has(c.checkpointId)) {
+      base = cache.get(c.checkpointId)
+      break
+    }
+    if (c.content !== undefined) {
+      base = c.content
+      break
+    }
+    if (chain.includes(c)) break
+    chain.push(c)
+  }
+
+  if (base === null) {
+    throw new Error(`Checkpoint ${checkpoint.checkpointId} has no keyframe to rebuild from`)
+  }
+  return chain.reduceRight((content, c) => applyDelta(content, c.delta || []), base)
+}
@@ -0,0 +1,86 @@
+import { diffWords, Change } from 'diff'
+import { stripFootnoteMarkers } from './Footnote'
+
+// Read-only comparison of two note states - checkpoints or the live note
+
+export interface NoteSnapshot {
+  content: string
+  annotationIds: string[]
+}
+
+export interface SnapshotDiff {
+  changes: Change[] // Word-level, from the older state to the newer
+  wordsAdded: number
+  wordsRemoved: number
+  annotationsAdded: string[] // IDs only in the newer state
+  annotationsDropped: string[] // IDs only in the older state
+}
+
+// Longest added passage quoted in a change description
+const QUOTE_LENGTH = 48
+
+// Longest the diff behind a checkpoint's description may run (ms); past it, only word counts are compared
+const DESCRIBE_TIMEOUT = 100
+
+// Citation markers in saved content aren't words
+export function countWords(text: string): number {
+  return stripFootnoteMarkers(text).split(/\s+/).filter(Boolean).length
+}
+
+// Null if a timeout (ms) is given and the diff runs past it
+export function diffSnapshots(from: NoteSnapshot, to: NoteSnapshot, timeout?: number): SnapshotDiff | null {
+  const changes = diffWords(stripFootnoteMarkers(from.content), stripFootnoteMarkers(to.content), { timeout })
+  if (!changes) return null
+  const fromIds = new Set(from.annotationIds)
+  const toIds = new Set(to.annotationIds)
+
+  return {
+    changes,
+    wordsAdded: changes.filter(change => change.added).reduce((total, change) => total + countWords(change.value), 0),
+    wordsRemoved: changes.filter(change => change.removed).reduce((total, change) => total + countWords(change.value), 0),
+    annotationsAdded: to.annotationIds.filter(id => !fromIds.has(id)),
+    annotationsDropped: from.annotationIds.filter(id => !toIds.has(id))
+  }
+}
+
+// One-line description of a change, for the checkpoint timeline
+export function describeChanges(diff: SnapshotDiff): string {
+  const parts: string[] = []
+  if (diff.wordsAdded > 0 || diff.wordsRemoved > 0) {
+    parts.push(`+${diff.wordsAdded} −${diff.wordsRemoved} words`)
+  }
+  if (diff.annotationsAdded.length > 0) {
+    parts.push(`${diff.annotationsAdded.length} ${diff.annotationsAdded.length === 1 ? 'annotation' : 'annotations'} added`)
+  }
+  if (diff.annotationsDropped.length > 0) {
+    parts.push(`${diff.annotationsDropped.length} dropped`)
+  }
+  if (parts.length === 0) {
+    return 'No changes'
+  }
+
+  // Quote the longest passage written since, if there is one worth quoting
+  const longest = diff.changes
+    .filter(change => change.added)
+    .map(change => change.value.replace(/\s+/g, ' ').trim())
+    .sort((a, b) => b.length - a.length)[0]
+  if (longest && countWords(longest) >= 3) {
+    const quote = longest.length > QUOTE_LENGTH ? `${longest.slice(0, QUOTE_LENGTH - 1)}…` : longest
+    return `${parts.join(', ')} · "${quote}"`
+  }
+  return parts.join(', ')
+}
+
+// Description of a checkpoint relative to the one it followed
+export function describeCheckpoint(checkpoint: NoteSnapshot, parent: NoteSnapshot | null): string {
+  if (!parent) {
+    const words = countWords(checkpoint.content)
+    return `Started with ${words} ${words === 1 ? 'word' : 'words'}`
+  }
+
+  const diff = diffSnapshots(parent, checkpoint, DESCRIBE_TIMEOUT)
+  if (!diff) {
+    return `Rewritten, ${countWords(parent.content)} → ${countWords(checkpoint.content)} words`
+  }
+  return describeChanges(diff)
+}
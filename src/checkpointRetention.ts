@@ -0,0 +1,42 @@
+import { Checkpoint } from './types'
+
+// Which checkpoints a prune removes. Manual checkpoints and the current one are always kept;
+// the rules only decide about automatic ones.
+
+export interface RetentionRules {
+  keepRecent: number // Newest automatic checkpoints kept regardless of age
+  keepDaily: boolean // Beyond those, keep the last automatic checkpoint of each day not already covered
+  keepBranchTips: boolean // Keep checkpoints nothing was made from, so no branch disappears
+}
+
+export const DEFAULT_RETENTION: RetentionRules = {
+  keepRecent: 10,
+  keepDaily: true,
+  keepBranchTips: true
+}
+
+function dayOf(timestamp: number): string {
+  return new Date(timestamp).toDateString()
+}
+
+// IDs of the checkpoints the rules would remove
+export function selectPrunable(checkpoints: Checkpoint[], currentCheckpointId: string | null, rules: RetentionRules): string[] {
+  const parentIds = new Set(checkpoints.map(c => c.parentId))
+  const automatic = checkpoints
+    .filter(c => !c.manual && c.checkpointId !== currentCheckpointId)
+    .sort((a, b) => b.timestamp - a.timestamp) // Newest first
+
+  const keptDays = new Set<string>()
+  return automatic.filter((checkpoint, index) => {
+    if (index < rules.keepRecent) {
+      keptDays.add(dayOf(checkpoint.timestamp))
+      return false
+    }
+    if (rules.keepBranchTips && !parentIds.has(checkpoint.checkpointId)) return false
+    if (rules.keepDaily && !keptDays.has(dayOf(checkpoint.timestamp))) {
+      keptDays.add(dayOf(checkpoint.timestamp))
+      return false
+    }
+    return true
+  }).map(c => c.checkpointId)
+}
@@ -0,0 +1,8 @@
+import { RecordType } from './types'
+
+// One-line citation for a record: Author, Title (domain)
+export function formatCitation(record: RecordType): string {
+  const parts = [record.author, record.title ? `"${record.title}"` : null].filter(Boolean)
+  const citation = parts.join(', ') || record.description || 'Untitled'
+  return record.domain ? `${citation} (${record.domain})` : citation
+}
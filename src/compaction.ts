@@ -0,0 +1,180 @@
+import { Message, ToolCall, TokenUsage, getLLMService } from './LLMService'
+import { getSettings, ProviderName } from './settings'
+
+// Number of most recent user turns (with their tool traffic) that are never compacted
+const KEEP_RECENT_TURNS = 2
+
+const COMPACTION_PROMPT = `
+You are compacting the history of a conversation between a writer and a research assistant who annotates the writer's essay.
+Summarize the earlier part of the conversation so the assistant can continue without it:
+- What the essay is about and how it has evolved
+- Themes, lists and connections that have already been explored
+- Any direction the writer seems to be heading in
+Be concise (under 300 words). Do not list individual sources - those are tracked separately.
+`.trim()
+
+const ANNOTATIONS_HEADER = 'Annotations already made (do not repeat these):\n'
+
+// Rough token estimate (~4 characters per token plus per-message overhead)
+export function estimateTokens(messages: Message[]): number {
+  let chars = 0
+  for (const message of messages) {
+    chars += (message.content || '').length
+    for (const toolCall of message.tool_calls || []) {
+      chars += toolCall.function.name.length + toolCall.function.arguments.length
+    }
+  }
+  return Math.ceil(chars / 4) + messages.length * 4
+}
+
+// Number of original messages a stored message stands for (summaries stand for many)
+export function logicalCount(message: Message): number {
+  return message.compactedCount || 1
+}
+
+// Length of the conversation as if it had never been compacted - checkpoints index into this
+export function logicalLength(messages: Message[]): number {
+  return messages.reduce((total, message) => total + logicalCount(message), 0)
+}
+
+// Keep messages up to and including a logical index. A summary that covers the index is kept
+// whole, since the individual messages it replaced no longer exist.
+export function truncateToLogicalIndex(messages: Message[], logicalIndex: number): Message[] {
+  const result: Message[] = []
+  let consumed = 0
+
+  for (const message of messages) {
+    if (consumed > logicalIndex) break
+    result.push(message)
+    consumed += logicalCount(message)
+  }
+
+  return result
+}
+
+// Strip bookkeeping fields before sending messages to a provider
+export function toRequestMessage(message: Message): Message {
+  const { compactedCount, ...rest } = message
+  return rest
+}
+
+// Describe a tool call from history as an "annotation already made" line
+function describeToolCall(toolCall: ToolCall): string | null {
+  let args: any
+  try {
+    args = JSON.parse(toolCall.function.arguments || '{}')
+  } catch {
+    return null
+  }
+
+  const titles = Array.isArray(args.records)
+    ? args.records.map((r: any) => r?.title).filter(Boolean).join('; ')
+    : ''
+
+  if (toolCall.function.name === 'annotate' && args.textSpan) {
+    return `- annotate "${args.textSpan}"${titles ? ` (${titles})` : ''}`
+  } else if (toolCall.function.name === 'extendList' && args.textSpan) {
+    const extensions = Array.isArray(args.extensions) ? args.extensions.join('; ') : ''
+    return `- extendList "${args.textSpan}"${extensions ? ` (${extensions})` : ''}`
+  } else if (toolCall.function.name === 'connectSpans' && Array.isArray(args.textSpans)) {
+    return `- connectSpans ${args.textSpans.map((span: string) => `"${span}"`).join(' <-> ')}${titles ? ` (${titles})` : ''}`
+  }
+  return null
+}
+
+// Plain-text transcript of the messages being compacted, for the summarization call
+function renderTranscript(messages: Message[]): string {
+  return messages
+    .map(message => {
+      if (message.compactedCount) {
+        return `Earlier summary:\n${message.content}`
+      } else if (message.role === 'user') {
+        return `Writer:\n${message.content}`
+      } else if (message.role === 'assistant') {
+        const calls = (message.tool_calls || []).map(describeToolCall).filter(Boolean)
+        return `Assistant:\n${[message.content, ...calls].filter(Boolean).join('\n')}`
+      }
+      return null // Tool responses carry no information worth summarizing
+    })
+    .filter(Boolean)
+    .join('\n\n')
+}
+
+// Annotation lines from tool calls, plus those carried over in earlier summaries
+function collectAnnotationLines(messages: Message[]): string[] {
+  const lines: string[] = []
+  for (const message of messages) {
+    if (message.compactedCount && message.content) {
+      const marker = message.content.indexOf(ANNOTATIONS_HEADER)
+      if (marker !== -1) {
+        lines.push(...message.content.slice(marker + ANNOTATIONS_HEADER.length).split('\n').filter(line => line.startsWith('- ')))
+      }
+    }
+    for (const toolCall of message.tool_calls || []) {
+      const line = describeToolCall(toolCall)
+      if (line) lines.push(line)
+    }
+  }
+  return lines
+}
+
+// Index where the kept tail starts: the KEEP_RECENT_TURNS-th last user turn
+function findCompactionCut(messages: Message[]): number {
+  let turns = 0
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role === 'user' && !messages[i].compactedCount) {
+      turns++
+      if (turns === KEEP_RECENT_TURNS) return i
+    }
+  }
+  return 0
+}
+
+export interface CompactionResult {
+  messages: Message[]
+  usage?: TokenUsage
+  provider?: ProviderName
+}
+
+// Replace older turns with a model-written summary once the history passes the threshold.
+// Returns null when no compaction was needed.
+export async function compactMessages(messages: Message[], signal?: AbortSignal): Promise<CompactionResult | null> {
+  const { compactionThreshold } = getSettings()
+  if (!compactionThreshold || estimateTokens(messages) < compactionThreshold) {
+    return null
+  }
+
+  const cut = findCompactionCut(messages)
+  const older = messages.slice(0, cut)
+  // Nothing to gain from re-summarizing a lone summary
+  if (older.length === 0 || (older.length === 1 && older[0].compactedCount)) {
+    return null
+  }
+
+  console.log(`Compacting ${older.length} messages (~${estimateTokens(messages)} tokens)`)
+
+  const response = await getLLMService().callLLM([
+    { role: 'system', content: COMPACTION_PROMPT },
+    { role: 'user', content: renderTranscript(older) }
+  ], {
+    temperature: 0.2,
+    response_format: { type: 'text' },
+    signal
+  })
+
+  const annotationLines = collectAnnotationLines(older)
+  const summary: Message = {
+    role: 'user',
+    content: [
+      `Summary of the earlier conversation:\n${response.content || '(no summary)'}`,
+      annotationLines.length > 0 ? `${ANNOTATIONS_HEADER}${annotationLines.join('\n')}` : ''
+    ].filter(Boolean).join('\n\n'),
+    compactedCount: logicalLength(older)
+  }
+
+  return {
+    messages: [summary, ...messages.slice(cut)],
+    usage: response.usage,
+    provider: response.provider
+  }
+}
@@ -9,9 +9,15 @@ declare module 'diff' {
     context?: number
   }
 
-  export function diffWords(oldStr: string, newStr: string): Change[]
+  // Limits for the diff itself; a diff that would exceed either is abandoned and returns undefined
+  export interface DiffOptions {
+    timeout?: number // ms
+    maxEditLength?: number // Tokens inserted plus removed
+  }
+
+  export function diffWords(oldStr: string, newStr: string, options?: DiffOptions): Change[] | undefined
+  export function diffWordsWithSpace(oldStr: string, newStr: string, options?: DiffOptions): Change[] | undefined
   export function diffLines(oldStr: string, newStr: string): Change[]
   export function diffChars(oldStr: string, newStr: string): Change[]
   export function createPatch(fileName: string, oldStr: string, newStr: string, oldHeader?: string, newHeader?: string, options?: PatchOptions): string
 }
-
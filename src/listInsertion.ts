@@ -0,0 +1,67 @@
+// Work out where and how to write accepted list extensions into the note so they read like
+// the list they extend: another bullet, another item in a comma series, or another line.
+
+export interface ListInsertion {
+  offset: number // Plain-text offset to insert at
+  text: string // Text to insert ('\n' becomes a line break)
+}
+
+const BULLET_PATTERN = /^(\s*)([-*•+]|\d+[.)])(\s+)/
+
+// Conjunction before the last item of a series ("a, b and c" / "a, b, and c")
+const CONJUNCTION_PATTERN = /,?\s+(?:and|or)\s+[^,]*$/
+
+function lineStartAt(content: string, offset: number): number {
+  return content.lastIndexOf('\n', offset - 1) + 1
+}
+
+function lineEndAt(content: string, offset: number): number {
+  const index = content.indexOf('\n', offset)
+  return index === -1 ? content.length : index
+}
+
+// Next marker in a bulleted or numbered list
+function nextMarker(marker: string, step: number): string {
+  const numbered = marker.match(/^(\d+)([.)])$/)
+  return numbered ? `${parseInt(numbered[1], 10) + step}${numbered[2]}` : marker
+}
+
+export function planListInsertion(content: string, start: number, end: number, extensions: string[]): ListInsertion {
+  const spanText = content.slice(start, end)
+  const lastLineStart = lineStartAt(content, Math.max(start, end - 1))
+  const bullet = content.slice(lastLineStart, lineEndAt(content, lastLineStart)).match(BULLET_PATTERN)
+
+  if (bullet) {
+    // Continue after the last consecutive bullet line, even if the span stopped earlier
+    let lineEnd = lineEndAt(content, lastLineStart)
+    let marker = bullet[2]
+    while (lineEnd < content.length) {
+      const nextLine = content.slice(lineEnd + 1, lineEndAt(content, lineEnd + 1))
+      const nextBullet = nextLine.match(BULLET_PATTERN)
+      if (!nextBullet) break
+      marker = nextBullet[2]
+      lineEnd = lineEndAt(content, lineEnd + 1)
+    }
+
+    const [, indent, , spacing] = bullet
+    return {
+      offset: lineEnd,
+      text: extensions.map((extension, i) => `\n${indent}${nextMarker(marker, i + 1)}${spacing}${extension}`).join('')
+    }
+  }
+
+  if (!spanText.includes('\n') && (spanText.includes(',') || CONJUNCTION_PATTERN.test(spanText))) {
+    // New items go before the conjunction so the series still ends "... and <last>"
+    const conjunction = CONJUNCTION_PATTERN.exec(spanText)
+    return {
+      offset: conjunction ? start + conjunction.index : end,
+      text: extensions.map(extension => `, ${extension}`).join('')
+    }
+  }
+
+  // Otherwise one entry per line after the list
+  return {
+    offset: lineEndAt(content, Math.max(start, end - 1)),
+    text: extensions.map(extension => `\n${extension}`).join('')
+  }
+}
@@ -0,0 +1,162 @@
+import { NoteType, TextSpanAnnotation, RecordType, getTextSpans } from './types'
+import { locateAnnotationOffsets } from './anchoring'
+import { formatCitation } from './citations'
+import { footnoteIdsInOrder } from './Footnote'
+import { toFileSlug } from './utils'
+
+// Markdown export of a note with its research trail, either as footnotes in the text
+// ('footnotes') or as clean Markdown plus a JSON sidecar of annotations ('sidecar')
+
+export type MarkdownExportMode = 'footnotes' | 'sidecar'
+
+export interface MarkdownExport {
+  fileName: string
+  markdown: string
+  sidecarFileName?: string
+  sidecar?: string // JSON, only in 'sidecar' mode
+}
+
+interface LocatedAnnotation {
+  entry: TextSpanAnnotation
+  offsets: Array<{ start: number; end: number } | null> // Into the note content, per span
+}
+
+const SIDECAR_VERSION = 1
+
+// Longest quote of a span repeated inside a footnote
+const EXCERPT_LENGTH = 60
+
+function excerpt(text: string): string {
+  const collapsed = text.replace(/\s+/g, ' ').trim()
+  return collapsed.length > EXCERPT_LENGTH ? `${collapsed.slice(0, EXCERPT_LENGTH - 1)}…` : collapsed
+}
+
+function singleLine(text: string): string {
+  return text.replace(/\s+/g, ' ').trim()
+}
+
+function describeRecord(record: RecordType): string {
+  const citation = formatCitation(record)
+  // formatCitation already falls back to the description when there's no title or author
+  return (record.title || record.author) && record.description
+    ? `${citation}: ${singleLine(record.description)}`
+    : singleLine(citation)
+}
+
+// Footnote body: a lead-in line, then the details as an indented list
+function annotationFootnote(label: string, entry: TextSpanAnnotation): string {
+  const spans = getTextSpans(entry.textSpan).map(span => `"${excerpt(span)}"`)
+  const { annotation } = entry
+
+  let heading: string
+  let items: string[]
+  if (annotation.type === 'list') {
+    heading = `More for the list ${spans[0]}:`
+    items = annotation.extensions.map(singleLine)
+  } else if (annotation.type === 'connection') {
+    heading = `Connects ${spans.slice(0, -1).join(', ')} with ${spans[spans.length - 1]}:`
+    items = annotation.records.map(describeRecord)
+  } else {
+    heading = `Sources for ${spans[0]}:`
+    items = annotation.records.map(describeRecord)
+  }
+
+  if (items.length === 0) return `[^${label}]: ${heading.replace(/:$/, '')}`
+  return `[^${label}]: ${heading}\n\n${items.map(item => `    - ${item}`).join('\n')}`
+}
+
+// Definitions for the citation markers already in the note, in marker order
+function citationFootnotes(note: NoteType): string[] {
+  const footnotesById = new Map((note.footnotes || []).map(f => [f.footnoteId, f]))
+  return footnoteIdsInOrder(note.content)
+    .filter((id, index, ids) => ids.indexOf(id) === index && footnotesById.has(id))
+    .map(id => `[^${id}]: ${singleLine(formatCitation(footnotesById.get(id).record))}`)
+}
+
+function locateAnnotations(note: NoteType, annotations: TextSpanAnnotation[]): LocatedAnnotation[] {
+  return annotations.map(entry => ({
+    entry,
+    offsets: entry.orphaned ? getTextSpans(entry.textSpan).map((): null => null) : locateAnnotationOffsets(note.content, entry)
+  }))
+}
+
+function titleHeading(note: NoteType): string {
+  return note.title ? `# ${note.title}\n\n` : ''
+}
+
+function withFootnotes(body: string, footnotes: string[]): string {
+  return footnotes.length > 0 ? `${body}\n\n${footnotes.join('\n\n')}\n` : `${body}\n`
+}
+
+// Annotated spans get a footnote marker at their end; connections mark every span they link
+function exportWithFootnotes(note: NoteType, located: LocatedAnnotation[]): string {
+  // Number footnotes in the order their first marker appears
+  const firstMarker = ({ offsets }: LocatedAnnotation) => Math.min(...offsets.filter(Boolean).map(offset => offset.end))
+  const anchored = located
+    .filter(({ offsets }) => offsets.some(Boolean))
+    .sort((a, b) => firstMarker(a) - firstMarker(b))
+
+  const markers: Array<{ offset: number; label: string; order: number }> = []
+  const definitions: string[] = []
+  anchored.forEach(({ entry, offsets }, index) => {
+    const label = String(index + 1)
+    offsets.forEach(offset => {
+      if (offset) markers.push({ offset: offset.end, label, order: index })
+    })
+    definitions.push(annotationFootnote(label, entry))
+  })
+  markers.sort((a, b) => a.offset - b.offset || a.order - b.order)
+
+  let body = ''
+  let cursor = 0
+  markers.forEach(({ offset, label }) => {
+    body += note.content.slice(cursor, offset) + `[^${label}]`
+    cursor = offset
+  })
+  body += note.content.slice(cursor)
+
+  return withFootnotes(titleHeading(note) + body, [...definitions, ...citationFootnotes(note)])
+}
+
+// Sidecar offsets index into the exported Markdown file itself
+function buildSidecar(note: NoteType, located: LocatedAnnotation[], markdownFileName: string): string {
+  const bodyOffset = titleHeading(note).length
+
+  return JSON.stringify({
+    version: SIDECAR_VERSION,
+    markdown: markdownFileName,
+    note: { id: note.id, title: note.title },
+    exportedAt: new Date().toISOString(),
+    annotations: located.map(({ entry, offsets }) => ({
+      annotationId: entry.annotationId,
+      type: entry.annotation.type,
+      ...(entry.checkpointId ? { checkpointId: entry.checkpointId } : {}),
+      ...(offsets.some(offset => !offset) ? { orphaned: true } : {}),
+      spans: getTextSpans(entry.textSpan).map((text, i) => ({
+        text,
+        start: offsets[i] ? offsets[i].start + bodyOffset : null,
+        end: offsets[i] ? offsets[i].end + bodyOffset : null
+      })),
+      ...(entry.annotation.type === 'list'
+        ? { extensions: entry.annotation.extensions }
+        : { records: entry.annotation.records })
+    }))
+  }, null, 2)
+}
+
+export function exportMarkdown(note: NoteType, annotations: TextSpanAnnotation[], mode: MarkdownExportMode): MarkdownExport {
+  const slug = toFileSlug(note.title, 'note')
+  const fileName = `${slug}.md`
+  const located = locateAnnotations(note, annotations)
+
+  if (mode === 'footnotes') {
+    return { fileName, markdown: exportWithFootnotes(note, located) }
+  }
+
+  return {
+    fileName,
+    markdown: withFootnotes(titleHeading(note) + note.content, citationFootnotes(note)),
+    sidecarFileName: `${slug}.annotations.json`,
+    sidecar: buildSidecar(note, located, fileName)
+  }
+}
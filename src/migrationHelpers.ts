@@ -0,0 +1,200 @@
+import { diffWords, diffWordsWithSpace, Change } from 'diff'
+import { TextAnchor, TextDelta, AnnotationSnapshot } from './types'
+
+// Frozen copies of the app code that registered migrations were written against. A shipped
+// migration has to keep doing what it did when it shipped, so it calls these instead of the
+// live helpers. Never change one to follow the app: a migration that needs different
+// behaviour gets its own copy. Names end in the dataset version of the migration using them.
+
+// --- annotations v2 (from anchoring.ts and spanResolver.ts) ---
+
+const ANCHOR_CONTEXT_V2 = 32
+
+function normalizeTextV2(text: string): string {
+  return text
+    .replace(/[“”]/g, '"')
+    .replace(/[‘’]/g, "'")
+    .replace(/[–—―]/g, '-')
+}
+
+// Lowercase and collapse whitespace runs, keeping a map from folded index to original index
+function foldV2(text: string): { folded: string; map: number[] } {
+  const normalized = normalizeTextV2(text)
+  let folded = ''
+  const map: number[] = []
+  let inWhitespace = false
+  for (let i = 0; i < normalized.length; i++) {
+    const char = normalized[i]
+    if (/\s/.test(char)) {
+      if (inWhitespace) continue
+      inWhitespace = true
+      folded += ' '
+    } else {
+      inWhitespace = false
+      folded += char.toLowerCase()[0]
+    }
+    map.push(i)
+  }
+  return { folded, map }
+}
+
+// Exact or whitespace/case-insensitive matches only. Spans that need approximate matching
+// stay unanchored, and the editor resolves them when the note is opened.
+export function anchorFromSpanV2(content: string, span: string): TextAnchor | null {
+  if (!span || !span.trim()) return null
+
+  let start = normalizeTextV2(content).indexOf(normalizeTextV2(span))
+  let end = start + span.length
+  if (start === -1) {
+    const foldedSpan = foldV2(span.trim()).folded
+    const { folded, map } = foldV2(content)
+    const index = foldedSpan ? folded.indexOf(foldedSpan) : -1
+    if (index === -1) return null
+    start = map[index]
+    end = map[index + foldedSpan.length - 1] + 1
+  }
+
+  return {
+    exact: content.slice(start, end),
+    prefix: content.slice(Math.max(0, start - ANCHOR_CONTEXT_V2), start),
+    suffix: content.slice(end, end + ANCHOR_CONTEXT_V2),
+    start,
+    end
+  }
+}
+
+// --- checkpoints v3 (from checkpointDiff.ts and Footnote.ts) ---
+
+const FOOTNOTE_MARKER_PATTERN_V3 = /\[\^(fn-[a-z0-9]+)\]/g
+const QUOTE_LENGTH_V3 = 48
+const DESCRIBE_TIMEOUT_V3 = 100
+
+interface SnapshotV3 {
+  content: string
+  annotationIds: string[]
+}
+
+function stripFootnoteMarkersV3(content: string): string {
+  return content.replace(FOOTNOTE_MARKER_PATTERN_V3, '')
+}
+
+export function countWordsV3(text: string): number {
+  return stripFootnoteMarkersV3(text).split(/\s+/).filter(Boolean).length
+}
+
+function describeChangesV3(changes: Change[], annotationsAdded: number, annotationsDropped: number): string {
+  const wordsAdded = changes.filter(change => change.added).reduce((total, change) => total + countWordsV3(change.value), 0)
+  const wordsRemoved = changes.filter(change => change.removed).reduce((total, change) => total + countWordsV3(change.value), 0)
+  const parts: string[] = []
+  if (wordsAdded > 0 || wordsRemoved > 0) parts.push(`+${wordsAdded} −${wordsRemoved} words`)
+  if (annotationsAdded > 0) parts.push(`${annotationsAdded} ${annotationsAdded === 1 ? 'annotation' : 'annotations'} added`)
+  if (annotationsDropped > 0) parts.push(`${annotationsDropped} dropped`)
+  if (parts.length === 0) return 'No changes'
+
+  const longest = changes
+    .filter(change => change.added)
+    .map(change => change.value.replace(/\s+/g, ' ').trim())
+    .sort((a, b) => b.length - a.length)[0]
+  if (longest && countWordsV3(longest) >= 3) {
+    const quote = longest.length > QUOTE_LENGTH_V3 ? `${longest.slice(0, QUOTE_LENGTH_V3 - 1)}…` : longest
+    return `${parts.join(', ')} · "${quote}"`
+  }
+  return parts.join(', ')
+}
+
+export function describeCheckpointV3(checkpoint: SnapshotV3, parent: SnapshotV3 | null): string {
+  if (!parent) {
+    const words = countWordsV3(checkpoint.content)
+    return `Started with ${words} ${words === 1 ? 'word' : 'words'}`
+  }
+
+  const changes = diffWords(stripFootnoteMarkersV3(parent.content), stripFootnoteMarkersV3(checkpoint.content), { timeout: DESCRIBE_TIMEOUT_V3 })
+  if (!changes) {
+    return `Rewritten, ${countWordsV3(parent.content)} → ${countWordsV3(checkpoint.content)} words`
+  }
+  const fromIds = new Set(parent.annotationIds)
+  const toIds = new Set(checkpoint.annotationIds)
+  return describeChangesV3(
+    changes,
+    checkpoint.annotationIds.filter(id => !fromIds.has(id)).length,
+    parent.annotationIds.filter(id => !toIds.has(id)).length
+  )
+}
+
+// --- checkpoints v4 (from checkpointDelta.ts) ---
+
+const KEYFRAME_INTERVAL_V4 = 10
+const MAX_DELTA_RATIO_V4 = 0.5
+const DIFF_TIMEOUT_V4 = 100
+
+interface CheckpointV4 {
+  checkpointId: string
+  parentId: string | null
+  content?: string
+  delta?: TextDelta
+}
+
+function deltaDepthV4(checkpoint: CheckpointV4, byId: Map<string, CheckpointV4>): number {
+  let depth = 0
+  for (let c = checkpoint; c && c.content === undefined && depth <= byId.size; c = byId.get(c.parentId)) {
+    depth++
+  }
+  return depth
+}
+
+// A checkpoint as stored: a delta from its parent, or a keyframe. byId holds the parent as stored.
+export function encodeCheckpointV4<T extends CheckpointV4>(checkpoint: T, content: string, byId: Map<string, CheckpointV4>, parentContent: (parent: CheckpointV4) => string): T {
+  const { content: _content, delta: _delta, ...rest } = checkpoint
+  const parent = byId.get(checkpoint.parentId)
+  if (!parent || deltaDepthV4(parent, byId) + 1 >= KEYFRAME_INTERVAL_V4) {
+    return { ...rest, content } as T
+  }
+
+  const changes = diffWordsWithSpace(parentContent(parent), content, { timeout: DIFF_TIMEOUT_V4 })
+  const delta: TextDelta = changes && changes.map(change =>
+    change.added ? change.value : change.removed ? -change.value.length : change.value.length
+  )
+  return !delta || JSON.stringify(delta).length > content.length * MAX_DELTA_RATIO_V4
+    ? { ...rest, content } as T
+    : { ...rest, delta } as T
+}
+
+// --- snapshots v2 (from annotationSnapshots.ts) ---
+
+function stableStringifyV2(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringifyV2).join(',')}]`
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([key, v]) => `${JSON.stringify(key)}:${stableStringifyV2(v)}`).join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+// cyrb53
+function cyrb53V2(text: string, seed: number): string {
+  let h1 = 0xdeadbeef ^ seed
+  let h2 = 0x41c6ce57 ^ seed
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i)
+    h1 = Math.imul(h1 ^ ch, 2654435761)
+    h2 = Math.imul(h2 ^ ch, 1597334677)
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0')
+}
+
+// An annotation body without its identity or position
+export function toSnapshotV2(entry: any): AnnotationSnapshot {
+  const { annotationId: _id, noteId: _note, orphaned: _orphaned, anchors: _anchors, ...snapshot } = entry
+  return snapshot
+}
+
+export function hashSnapshotV2(snapshot: AnnotationSnapshot): string {
+  const text = stableStringifyV2(snapshot)
+  return cyrb53V2(text, 0) + cyrb53V2(text, 1)
+}
@@ -0,0 +1,197 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach } from 'vitest'
+import { migrateStoredData, validateStoredData, migrateStorage, SCHEMA_VERSIONS, SchemaVersions, StoredData } from './migrations'
+import { LocalStorageAdapter } from './storageAdapter'
+import { resolveContent } from './checkpointDelta'
+import { Checkpoint } from './types'
+import notesV1 from './fixtures/migrations/notes-v1.json'
+import annotationsV1 from './fixtures/migrations/annotations-v1.json'
+import checkpointsV1 from './fixtures/migrations/checkpoints-v1.json'
+import checkpointsV2 from './fixtures/migrations/checkpoints-v2.json'
+import checkpointsV3 from './fixtures/migrations/checkpoints-v3.json'
+
+interface Fixture {
+  description: string
+  versions: SchemaVersions
+  data: StoredData
+}
+
+const FIXTURES = [notesV1, annotationsV1, checkpointsV1, checkpointsV2, checkpointsV3] as unknown as Fixture[]
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value))
+}
+
+function contentOf(checkpoints: Checkpoint[]): Record<string, string> {
+  const byId = new Map(checkpoints.map(c => [c.checkpointId, c]))
+  return Object.fromEntries(checkpoints.map(c => [c.checkpointId, resolveContent(c, byId, new Map())]))
+}
+
+describe('migrateStoredData', () => {
+  FIXTURES.forEach(fixture => {
+    describe(fixture.description, () => {
+      it('has migrations to run', () => {
+        expect(migrateStoredData(clone(fixture.data), fixture.versions).applied.length).toBeGreaterThan(0)
+      })
+
+      it('migrates to the current schema and passes validation', () => {
+        const result = migrateStoredData(clone(fixture.data), fixture.versions)
+        expect(result.errors).toEqual([])
+        expect(result.to).toEqual(SCHEMA_VERSIONS)
+        expect(validateStoredData(result.data)).toEqual([])
+      })
+
+      it('leaves its input unchanged', () => {
+        const input = clone(fixture.data)
+        migrateStoredData(input, fixture.versions)
+        expect(input).toEqual(fixture.data)
+      })
+
+      it('keeps every checkpoint\'s content', () => {
+        const { data } = migrateStoredData(clone(fixture.data), fixture.versions)
+        Object.entries(fixture.data.checkpoints).forEach(([noteId, checkpoints]) => {
+          const original = Object.fromEntries(checkpoints.map(c => [c.checkpointId, c.content]))
+          expect(contentOf(data.checkpoints[noteId])).toEqual(original)
+        })
+      })
+    })
+  })
+
+  it('moves embedded annotations out of notes', () => {
+    const { data } = migrateStoredData(clone(notesV1.data) as StoredData, notesV1.versions)
+    expect(data.notes[0].annotations).toBeUndefined()
+    expect(data.annotations.map(a => [a.annotationId, a.noteId])).toEqual([['ann-1', 'note-1'], ['ann-2', 'note-1'], ['ann-3', 'note-1']])
+  })
+
+  it('anchors annotations whose text is still in the note', () => {
+    const { data } = migrateStoredData(clone(annotationsV1.data) as StoredData, annotationsV1.versions)
+    const [reference, connection, gone] = data.annotations
+    expect(reference.anchors.map((a: any) => a.exact)).toEqual(['The river flooded the valley'])
+    expect(connection.anchors).toHaveLength(2)
+    expect(gone.anchors).toBeUndefined()
+  })
+
+  it('links v1 checkpoints in the order they were made', () => {
+    const { data } = migrateStoredData(clone(checkpointsV1.data) as StoredData, checkpointsV1.versions)
+    const parents = Object.fromEntries(data.checkpoints['note-1'].map(c => [c.checkpointId, c.parentId]))
+    expect(parents).toEqual({ 'checkpoint-0': null, 'checkpoint-1': 'checkpoint-0', 'checkpoint-2': 'checkpoint-1' })
+  })
+
+  it('describes v2 checkpoints against their parent', () => {
+    const { data } = migrateStoredData(clone(checkpointsV2.data) as StoredData, checkpointsV2.versions)
+    const [root, , , branch] = data.checkpoints['note-1']
+    expect(root.summary).toMatch(/^Started with \d+ words$/)
+    expect(branch.summary).toBe('+1 −1 words')
+    expect(branch.wordCount).toBeGreaterThan(0)
+  })
+
+  it('stores v3 checkpoints as deltas from the root keyframe', () => {
+    const { data } = migrateStoredData(clone(checkpointsV3.data) as StoredData, checkpointsV3.versions)
+    const [root, ...rest] = data.checkpoints['note-1']
+    expect(typeof root.content).toBe('string')
+    rest.forEach(checkpoint => {
+      expect(checkpoint.content).toBeUndefined()
+      expect(Array.isArray(checkpoint.delta)).toBe(true)
+    })
+    // Fields added by earlier versions come through untouched
+    expect(rest[0].name).toBe('Before the relief section')
+    expect(root.summary).toBe(checkpointsV3.data.checkpoints['note-1'][0].summary)
+  })
+
+  it('moves anchors out of shared snapshots onto each checkpoint', () => {
+    const stored = checkpointsV3.data.snapshots['00000000000000000000000000aaaa']
+    const { data } = migrateStoredData(clone(checkpointsV3.data) as StoredData, checkpointsV3.versions)
+    const [hash] = Object.keys(data.snapshots)
+    expect(Object.values(data.snapshots)).toEqual([{ textSpan: stored.textSpan, annotation: stored.annotation }])
+    data.checkpoints['note-1'].forEach(checkpoint => {
+      expect(checkpoint.annotationSnapshots).toEqual({ 'ann-1': hash })
+      expect(checkpoint.annotationAnchors).toEqual({ 'ann-1': stored.anchors })
+    })
+  })
+
+  it('refuses data from a newer version', () => {
+    const result = migrateStoredData(clone(checkpointsV3.data) as StoredData, { ...SCHEMA_VERSIONS, checkpoints: SCHEMA_VERSIONS.checkpoints + 1 })
+    expect(result.applied).toEqual([])
+    expect(result.errors[0]).toMatch(/newer version/)
+  })
+
+  it('reports problems in damaged data', () => {
+    const data = clone(checkpointsV3.data) as StoredData
+    data.checkpoints['note-1'][1].parentId = 'checkpoint-missing'
+    delete data.notes[0].createdAt
+    const result = migrateStoredData(data, checkpointsV3.versions)
+    expect(result.errors).toContain('note note-1: missing timestamps')
+    expect(result.errors.some(error => error.startsWith('checkpoint checkpoint-1:'))).toBe(true)
+  })
+})
+
+describe('migrateStorage', () => {
+  let storage: LocalStorageAdapter
+
+  async function store(fixture: Fixture) {
+    const { data } = fixture
+    for (const note of data.notes) await storage.putNote(note)
+    for (const ann of data.annotations) await storage.putAnnotation(ann)
+    for (const [noteId, messages] of Object.entries(data.conversations)) await storage.putMessages(noteId, messages)
+    for (const [noteId, checkpoints] of Object.entries(data.checkpoints)) {
+      for (const checkpoint of checkpoints) await storage.putCheckpoint(noteId, checkpoint)
+    }
+    for (const [hash, snapshot] of Object.entries(data.snapshots)) await storage.putSnapshot(hash, snapshot)
+    await storage.putSchemaVersions(fixture.versions)
+  }
+
+  function storedItems(): Record<string, string> {
+    return Object.fromEntries(Object.keys(localStorage).map(key => [key, localStorage.getItem(key)]))
+  }
+
+  beforeEach(() => {
+    localStorage.clear()
+    storage = new LocalStorageAdapter()
+  })
+
+  FIXTURES.forEach(fixture => {
+    it(`dry-runs ${fixture.description.split(':')[0]} without writing`, async () => {
+      await store(fixture)
+      const before = storedItems()
+
+      const report = await migrateStorage(storage, { dryRun: true })
+      expect(report.dryRun).toBe(true)
+      expect(report.written).toBe(false)
+      expect(report.errors).toEqual([])
+      expect(report.applied.length).toBeGreaterThan(0)
+      expect(storedItems()).toEqual(before)
+    })
+
+    it(`migrates ${fixture.description.split(':')[0]} in storage`, async () => {
+      await store(fixture)
+
+      const report = await migrateStorage(storage)
+      expect(report.written).toBe(true)
+      expect(await storage.getSchemaVersions()).toEqual(SCHEMA_VERSIONS)
+
+      const migrated = {
+        notes: await storage.getNotes(),
+        annotations: await storage.getAnnotations(),
+        conversations: await storage.getAllMessages(),
+        checkpoints: await storage.getAllCheckpoints(),
+        snapshots: await storage.getAllSnapshots()
+      }
+      expect(validateStoredData(migrated)).toEqual([])
+    })
+  })
+
+  it('skips reading data that is already current', async () => {
+    await store(checkpointsV3)
+    await migrateStorage(storage)
+
+    const report = await migrateStorage(storage)
+    expect(report.data).toBeNull()
+    expect(report.applied).toEqual([])
+    expect(report.written).toBe(false)
+
+    // A dry run still checks what's there
+    const check = await migrateStorage(storage, { dryRun: true })
+    expect(check.data.notes).toHaveLength(1)
+    expect(check.errors).toEqual([])
+  })
+})
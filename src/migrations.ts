@@ -0,0 +1,400 @@
+import { NoteType, TextSpanAnnotation, Checkpoint, TextAnchor, AnnotationSnapshot, getTextSpans } from './types'
+import { Message } from './LLMService'
+import { StorageAdapter } from './storageAdapter'
+import { anchorFromSpanV2, describeCheckpointV3, countWordsV3, encodeCheckpointV4, toSnapshotV2, hashSnapshotV2 } from './migrationHelpers'
+
+// Schema versions for persisted data. Each dataset records the version it was written with;
+// older data is brought forward by the ordered migrations below and validated before anything
+// is written back. Add a migration (never edit a shipped one) whenever a stored shape changes.
+// Migrations use the frozen helpers in migrationHelpers, not the live app code.
+
+export type Dataset = 'notes' | 'annotations' | 'messages' | 'checkpoints' | 'snapshots'
+
+export type SchemaVersions = Record<Dataset, number>
+
+// Everything that's persisted, in the same shape as a backup bundle
+export interface StoredData {
+  notes: any[]
+  annotations: any[]
+  conversations: Record<string, any[]> // noteId -> messages
+  checkpoints: Record<string, any[]> // noteId -> checkpoints
+  snapshots: Record<string, any> // hash -> annotation snapshot
+}
+
+export interface Migration {
+  dataset: Dataset
+  version: number // Version the dataset is at after this migration
+  description: string
+  migrate: (data: StoredData) => StoredData // Must not modify its input (dry runs reuse it)
+}
+
+export interface MigrationResult {
+  data: StoredData | null // Null when migrateStorage found nothing to do and didn't read it
+  from: SchemaVersions
+  to: SchemaVersions
+  applied: string[] // Descriptions of the migrations that ran
+  errors: string[] // Validation problems in the result - nothing should be written if any
+}
+
+export interface MigrationReport extends MigrationResult {
+  backend: string
+  dryRun: boolean
+  written: boolean
+}
+
+const DATASETS: Dataset[] = ['notes', 'annotations', 'messages', 'checkpoints', 'snapshots']
+
+// Versions of data written before versions were recorded
+export const BASELINE_VERSIONS: SchemaVersions = { notes: 1, annotations: 1, messages: 1, checkpoints: 1, snapshots: 1 }
+
+const ANNOTATION_TYPES = ['reference', 'list', 'connection']
+
+// Stop listing problems after this many - one broken field usually repeats everywhere
+const MAX_ERRORS = 20
+
+export const MIGRATIONS: Migration[] = [
+  {
+    dataset: 'notes',
+    version: 2,
+    description: 'Move annotations embedded in notes into the annotations dataset',
+    migrate: (data) => {
+      const annotations = [...data.annotations]
+      const notes = data.notes.map(note => {
+        if (!Array.isArray(note.annotations)) return note
+        const { annotations: embedded, ...cleanNote } = note
+        embedded.forEach((ann: any) => {
+          if (!annotations.some(existing => existing.annotationId === ann.annotationId)) {
+            annotations.push({ ...ann, noteId: note.id })
+          }
+        })
+        return cleanNote
+      })
+      return { ...data, notes, annotations }
+    }
+  },
+  {
+    dataset: 'annotations',
+    version: 2,
+    description: 'Anchor annotations saved before anchors existed',
+    migrate: (data) => {
+      const contentById = new Map<string, string>(data.notes.map(note => [note.id, note.content || '']))
+      const annotations = data.annotations.map((entry: TextSpanAnnotation) => {
+        const content = contentById.get(entry.noteId)
+        if (entry.anchors || content === undefined) return entry
+        const anchors = getTextSpans(entry.textSpan).map(span => anchorFromSpanV2(content, span))
+        // Spans that no longer match are left to be resolved (or orphaned) in the editor
+        return anchors.every(Boolean) ? { ...entry, anchors: anchors as TextAnchor[] } : entry
+      })
+      return { ...data, annotations }
+    }
+  },
+  {
+    dataset: 'checkpoints',
+    version: 2,
+    description: 'Link checkpoints into a branch tree, in the order they were made',
+    migrate: (data) => {
+      const checkpoints = Object.fromEntries(Object.entries(data.checkpoints).map(([noteId, list]) => {
+        const ordered = [...list].sort((a, b) => a.timestamp - b.timestamp)
+        return [noteId, ordered.map((checkpoint, i) => ({
+          ...checkpoint,
+          parentId: i === 0 ? null : ordered[i - 1].checkpointId
+        }))]
+      }))
+      return { ...data, checkpoints }
+    }
+  },
+  {
+    dataset: 'checkpoints',
+    version: 3,
+    description: 'Describe what changed at each checkpoint and count its words',
+    migrate: (data) => {
+      const checkpoints = Object.fromEntries(Object.entries(data.checkpoints).map(([noteId, list]) => {
+        const byId = new Map<string, Checkpoint>(list.map(checkpoint => [checkpoint.checkpointId, checkpoint]))
+        const snapshot = (checkpoint: Checkpoint) => checkpoint && { content: checkpoint.content, annotationIds: checkpoint.annotationIds }
+        return [noteId, list.map(checkpoint => ({
+          ...checkpoint,
+          summary: checkpoint.summary ?? describeCheckpointV3(snapshot(checkpoint), snapshot(byId.get(checkpoint.parentId)) || null),
+          wordCount: checkpoint.wordCount ?? countWordsV3(checkpoint.content)
+        }))]
+      }))
+      return { ...data, checkpoints }
+    }
+  },
+  {
+    dataset: 'checkpoints',
+    version: 4,
+    description: 'Store checkpoint content as changes from the parent, with periodic full copies',
+    migrate: (data) => {
+      const checkpoints = Object.fromEntries(Object.entries(data.checkpoints).map(([noteId, list]) => {
+        const contentById = new Map<string, string>(list.map(checkpoint => [checkpoint.checkpointId, checkpoint.content]))
+        // Oldest first, so each parent is encoded before its children
+        const encoded = new Map<string, Checkpoint>()
+        ;[...list].sort((a, b) => a.timestamp - b.timestamp).forEach(checkpoint => {
+          encoded.set(checkpoint.checkpointId, encodeCheckpointV4(checkpoint, checkpoint.content, encoded, parent => contentById.get(parent.checkpointId)))
+        })
+        return [noteId, list.map(checkpoint => encoded.get(checkpoint.checkpointId))]
+      }))
+      return { ...data, checkpoints }
+    }
+  },
+  {
+    dataset: 'snapshots',
+    version: 2,
+    description: 'Keep annotation anchors on each checkpoint, out of the shared snapshots',
+    migrate: (data) => {
+      // Bodies that only differed by their anchors now share one hash
+      const snapshots: Record<string, AnnotationSnapshot> = {}
+      const rehashed = new Map<string, string>()
+      Object.entries(data.snapshots).forEach(([hash, stored]) => {
+        const snapshot = toSnapshotV2(stored)
+        const newHash = hashSnapshotV2(snapshot)
+        rehashed.set(hash, newHash)
+        snapshots[newHash] = snapshot
+      })
+
+      const checkpoints = Object.fromEntries(Object.entries(data.checkpoints).map(([noteId, list]) => [noteId, list.map(checkpoint => {
+        if (!checkpoint.annotationSnapshots) return checkpoint
+        const entries = Object.entries<string>(checkpoint.annotationSnapshots)
+        const annotationAnchors = Object.fromEntries(entries
+          .filter(([, hash]) => data.snapshots[hash]?.anchors)
+          .map(([annotationId, hash]) => [annotationId, data.snapshots[hash].anchors]))
+        return {
+          ...checkpoint,
+          annotationSnapshots: Object.fromEntries(entries.map(([annotationId, hash]) => [annotationId, rehashed.get(hash) || hash])),
+          annotationAnchors
+        }
+      })]))
+      return { ...data, checkpoints, snapshots }
+    }
+  }
+]
+
+// Latest version of each dataset, as defined by the registry
+export const SCHEMA_VERSIONS: SchemaVersions = MIGRATIONS.reduce(
+  (versions, migration) => ({ ...versions, [migration.dataset]: Math.max(versions[migration.dataset], migration.version) }),
+  { ...BASELINE_VERSIONS }
+)
+
+function validateNote(note: NoteType, errors: string[]) {
+  if (!note || typeof note.id !== 'string') {
+    errors.push('note without an id')
+    return
+  }
+  if (typeof note.content !== 'string') errors.push(`note ${note.id}: content is not text`)
+  if (note.title !== undefined && typeof note.title !== 'string') errors.push(`note ${note.id}: title is not text`)
+  if (typeof note.createdAt !== 'number' || typeof note.updatedAt !== 'number') errors.push(`note ${note.id}: missing timestamps`)
+  if ((note as any).annotations !== undefined) errors.push(`note ${note.id}: still has embedded annotations`)
+}
+
+function validateAnnotation(entry: TextSpanAnnotation, errors: string[]) {
+  if (!entry || typeof entry.annotationId !== 'string') {
+    errors.push('annotation without an annotationId')
+    return
+  }
+  const id = entry.annotationId
+  if (typeof entry.noteId !== 'string') errors.push(`annotation ${id}: missing noteId`)
+  validateAnnotationBody(`annotation ${id}`, entry, errors)
+  const spans = getTextSpans(entry.textSpan)
+  if (entry.anchors !== undefined && (!Array.isArray(entry.anchors) || entry.anchors.length !== spans.length)) {
+    errors.push(`annotation ${id}: anchors don't match its spans`)
+  }
+}
+
+// The parts of an annotation that checkpoint snapshots keep too
+function validateAnnotationBody(label: string, entry: AnnotationSnapshot, errors: string[]) {
+  const spans = Array.isArray(entry.textSpan) ? entry.textSpan : [entry.textSpan]
+  if (!spans.every(span => typeof span === 'string')) errors.push(`${label}: textSpan is not text`)
+
+  const { annotation } = entry
+  if (!annotation || !ANNOTATION_TYPES.includes(annotation.type)) {
+    errors.push(`${label}: unknown type`)
+  } else if (annotation.type === 'list' ? !Array.isArray(annotation.extensions) : !Array.isArray(annotation.records)) {
+    errors.push(`${label}: missing ${annotation.type === 'list' ? 'extensions' : 'records'}`)
+  }
+}
+
+function validateMessages(noteId: string, messages: Message[], errors: string[]) {
+  if (!Array.isArray(messages)) {
+    errors.push(`conversation ${noteId}: not a list`)
+  } else if (!messages.every(message => message && typeof message.role === 'string')) {
+    errors.push(`conversation ${noteId}: message without a role`)
+  }
+}
+
+function validateCheckpoint(noteId: string, checkpoint: Checkpoint, checkpointIds: Set<string>, errors: string[]) {
+  if (!checkpoint || typeof checkpoint.checkpointId !== 'string') {
+    errors.push(`checkpoints for ${noteId}: checkpoint without an id`)
+    return
+  }
+  const id = checkpoint.checkpointId
+  if (checkpoint.content !== undefined) {
+    if (typeof checkpoint.content !== 'string') errors.push(`checkpoint ${id}: content is not text`)
+  } else if (!Array.isArray(checkpoint.delta) || !checkpoint.delta.every(op => typeof op === 'string' || typeof op === 'number')) {
+    errors.push(`checkpoint ${id}: has neither content nor a delta`)
+  } else if (checkpoint.parentId === null) {
+    errors.push(`checkpoint ${id}: has a delta but no parent to apply it to`)
+  }
+  if (!Array.isArray(checkpoint.annotationIds)) errors.push(`checkpoint ${id}: missing annotationIds`)
+  if (typeof checkpoint.timestamp !== 'number' || typeof checkpoint.messageIndex !== 'number') errors.push(`checkpoint ${id}: missing timestamp or messageIndex`)
+  if (checkpoint.summary !== undefined && typeof checkpoint.summary !== 'string') errors.push(`checkpoint ${id}: summary is not text`)
+  if (checkpoint.wordCount !== undefined && typeof checkpoint.wordCount !== 'number') errors.push(`checkpoint ${id}: wordCount is not a number`)
+  if (checkpoint.parentId !== null && !checkpointIds.has(checkpoint.parentId)) errors.push(`checkpoint ${id}: parent isn't one of the note's checkpoints`)
+  if (checkpoint.conversation !== undefined) validateMessages(`${noteId} at ${id}`, checkpoint.conversation, errors)
+  // A missing snapshot isn't an error - restoring falls back to the current annotation
+  const snapshots = checkpoint.annotationSnapshots
+  if (snapshots !== undefined && (!snapshots || typeof snapshots !== 'object' || !Object.values(snapshots).every(hash => typeof hash === 'string'))) {
+    errors.push(`checkpoint ${id}: annotationSnapshots must map annotation IDs to hashes`)
+  }
+  const anchors = checkpoint.annotationAnchors
+  if (anchors !== undefined && (!anchors || typeof anchors !== 'object' || !Object.values(anchors).every(Array.isArray))) {
+    errors.push(`checkpoint ${id}: annotationAnchors must map annotation IDs to anchor lists`)
+  }
+}
+
+// Check data against the current schema
+export function validateStoredData(data: StoredData): string[] {
+  const errors: string[] = []
+  if (!Array.isArray(data.notes)) errors.push('notes: not a list')
+  else data.notes.forEach(note => validateNote(note, errors))
+  if (!Array.isArray(data.annotations)) errors.push('annotations: not a list')
+  else data.annotations.forEach(entry => validateAnnotation(entry, errors))
+  Object.entries(data.conversations || {}).forEach(([noteId, messages]) => validateMessages(noteId, messages, errors))
+  Object.entries(data.checkpoints || {}).forEach(([noteId, checkpoints]) => {
+    if (!Array.isArray(checkpoints)) errors.push(`checkpoints for ${noteId}: not a list`)
+    else {
+      const checkpointIds = new Set(checkpoints.map(checkpoint => checkpoint?.checkpointId))
+      checkpoints.forEach(checkpoint => validateCheckpoint(noteId, checkpoint, checkpointIds, errors))
+    }
+  })
+  Object.entries(data.snapshots || {}).forEach(([hash, snapshot]) => {
+    if (!snapshot || typeof snapshot !== 'object') errors.push(`annotation snapshot ${hash}: not an object`)
+    else {
+      validateAnnotationBody(`annotation snapshot ${hash}`, snapshot, errors)
+      if (snapshot.anchors !== undefined) errors.push(`annotation snapshot ${hash}: still has anchors`)
+    }
+  })
+
+  return errors.length > MAX_ERRORS
+    ? [...errors.slice(0, MAX_ERRORS), `…and ${errors.length - MAX_ERRORS} more`]
+    : errors
+}
+
+// Run every migration the data hasn't had yet, in registry order, then validate the result
+export function migrateStoredData(data: StoredData, versions: Partial<SchemaVersions>): MigrationResult {
+  const from: SchemaVersions = { ...BASELINE_VERSIONS, ...versions }
+  const newer = DATASETS.filter(dataset => from[dataset] > SCHEMA_VERSIONS[dataset])
+  if (newer.length > 0) {
+    return {
+      data,
+      from,
+      to: from,
+      applied: [],
+      errors: newer.map(dataset => `${dataset}: stored by a newer version of the app (v${from[dataset]}, this version knows v${SCHEMA_VERSIONS[dataset]})`)
+    }
+  }
+
+  let migrated = data
+  const to = { ...from }
+  const applied: string[] = []
+  for (const migration of MIGRATIONS) {
+    if (to[migration.dataset] >= migration.version) continue
+    migrated = migration.migrate(migrated)
+    to[migration.dataset] = migration.version
+    applied.push(`${migration.dataset} v${migration.version}: ${migration.description}`)
+  }
+
+  return { data: migrated, from, to, applied, errors: validateStoredData(migrated) }
+}
+
+async function readStoredData(storage: StorageAdapter): Promise<StoredData> {
+  return {
+    notes: await storage.getNotes(),
+    annotations: await storage.getAnnotations(),
+    conversations: await storage.getAllMessages(),
+    checkpoints: await storage.getAllCheckpoints(),
+    snapshots: await storage.getAllSnapshots()
+  }
+}
+
+function isEmpty(data: StoredData): boolean {
+  return data.notes.length === 0 && data.annotations.length === 0 &&
+    Object.keys(data.conversations).length === 0 && Object.keys(data.checkpoints).length === 0 &&
+    Object.keys(data.snapshots).length === 0
+}
+
+function changedItems<T>(before: T[], after: T[], getId: (item: T) => string): { put: T[]; removed: string[] } {
+  const previous = new Map(before.map(item => [getId(item), JSON.stringify(item)]))
+  const current = new Set(after.map(getId))
+  return {
+    put: after.filter(item => previous.get(getId(item)) !== JSON.stringify(item)),
+    removed: Array.from(previous.keys()).filter(id => !current.has(id))
+  }
+}
+
+// Write back only the records a migration changed
+async function writeChanges(storage: StorageAdapter, before: StoredData, after: StoredData): Promise<void> {
+  const notes = changedItems<NoteType>(before.notes, after.notes, note => note.id)
+  for (const note of notes.put) await storage.putNote(note)
+  for (const id of notes.removed) await storage.deleteNote(id)
+
+  const annotations = changedItems<TextSpanAnnotation>(before.annotations, after.annotations, ann => ann.annotationId)
+  for (const ann of annotations.put) await storage.putAnnotation(ann)
+  for (const id of annotations.removed) await storage.deleteAnnotation(id)
+
+  for (const [noteId, messages] of Object.entries(after.conversations)) {
+    if (JSON.stringify(messages) !== JSON.stringify(before.conversations[noteId])) {
+      await storage.putMessages(noteId, messages)
+    }
+  }
+  for (const noteId of Object.keys(before.conversations)) {
+    if (!(noteId in after.conversations)) await storage.deleteMessages(noteId)
+  }
+
+  const noteIds = new Set([...Object.keys(before.checkpoints), ...Object.keys(after.checkpoints)])
+  for (const noteId of noteIds) {
+    const checkpoints = changedItems<Checkpoint>(before.checkpoints[noteId] || [], after.checkpoints[noteId] || [], c => c.checkpointId)
+    for (const checkpoint of checkpoints.put) await storage.putCheckpoint(noteId, checkpoint)
+    for (const id of checkpoints.removed) await storage.deleteCheckpoint(noteId, id)
+  }
+
+  for (const [hash, snapshot] of Object.entries(after.snapshots)) {
+    if (JSON.stringify(snapshot) !== JSON.stringify(before.snapshots[hash])) {
+      await storage.putSnapshot(hash, snapshot)
+    }
+  }
+  for (const hash of Object.keys(before.snapshots)) {
+    if (!(hash in after.snapshots)) await storage.deleteSnapshot(hash)
+  }
+}
+
+// Bring stored data up to the current schema. With dryRun nothing is written - the report
+// says what would change and whether the result would pass validation.
+export async function migrateStorage(storage: StorageAdapter, options: { dryRun?: boolean } = {}): Promise<MigrationReport> {
+  const dryRun = !!options.dryRun
+  const storedVersions = await storage.getSchemaVersions()
+
+  // Already current, so there's nothing to migrate - skip reading everything in on startup.
+  // A dry run still reads and validates, since that's what it's asked for.
+  if (!dryRun && storedVersions && DATASETS.every(dataset => storedVersions[dataset] === SCHEMA_VERSIONS[dataset])) {
+    return { data: null, from: storedVersions, to: storedVersions, applied: [], errors: [], backend: storage.name, dryRun, written: false }
+  }
+
+  const data = await readStoredData(storage)
+
+  // Nothing stored yet - it will all be written in the current schema
+  if (!storedVersions && isEmpty(data)) {
+    if (!dryRun) await storage.putSchemaVersions(SCHEMA_VERSIONS)
+    return { data, from: SCHEMA_VERSIONS, to: SCHEMA_VERSIONS, applied: [], errors: [], backend: storage.name, dryRun, written: !dryRun }
+  }
+
+  const result = migrateStoredData(data, storedVersions || {})
+  const report: MigrationReport = { ...result, backend: storage.name, dryRun, written: false }
+  const versionsChanged = !storedVersions || DATASETS.some(dataset => result.to[dataset] !== storedVersions[dataset])
+  if (dryRun || result.errors.length > 0 || !versionsChanged) {
+    return report
+  }
+
+  await writeChanges(storage, data, result.data)
+  await storage.putSchemaVersions(result.to)
+  return { ...report, written: true }
+}
@@ -0,0 +1,134 @@
+// Runtime settings - persisted in localStorage and read live by every consumer.
+// VITE_* variables are only used as the defaults for a fresh install.
+
+export type ProviderName = 'together' | 'kimi' | 'openrouter' | 'local'
+
+export type LocalToolsMode = 'native' | 'prompt' | 'auto'
+
+// USD per million tokens
+export interface ProviderPrice {
+  prompt: number
+  completion: number
+}
+
+export interface Settings {
+  provider: ProviderName
+  models: Record<ProviderName, string> // Model name per provider
+  apiKeys: Record<ProviderName, string> // Stored in plain text in localStorage
+  localBaseUrl: string
+  localToolsMode: LocalToolsMode
+  temperature: number
+  reasoningEffort: 'low' | 'medium' | 'high'
+  debounceDelay: number // ms of inactivity before a note is analyzed
+  compactionThreshold: number // Estimated tokens of history before older turns are summarized (0 = never)
+  maxRetries: number // Retries per provider for rate limits, 5xx and network errors
+  retryBaseDelay: number // ms - doubled on every retry, with jitter
+  fallbackProviders: ProviderName[] // Tried in order once the main provider gives up
+  prices: Record<ProviderName, ProviderPrice>
+  monthlyBudget: number // USD - automatic analysis pauses once reached (0 = no cap)
+  mock: boolean
+  saveNotes: boolean
+  saveMessages: boolean
+}
+
+export const PROVIDERS: ProviderName[] = ['together', 'kimi', 'openrouter', 'local']
+
+const SETTINGS_STORAGE_KEY = 'half-formed-thought-settings'
+
+const env = import.meta.env
+
+export const DEFAULT_SETTINGS: Settings = {
+  provider: (env.VITE_API_PROVIDER as ProviderName) || 'together',
+  models: {
+    together: 'moonshotai/Kimi-K2-Instruct-0905',
+    kimi: 'kimi-k2-0905-preview',
+    openrouter: 'moonshotai/kimi-k2-0905',
+    local: env.VITE_LOCAL_MODEL || 'llama3.1'
+  },
+  apiKeys: {
+    together: env.VITE_TOGETHER_API_KEY || '',
+    kimi: env.VITE_MOONSHOT_API_KEY || '',
+    openrouter: env.VITE_OPENROUTER_API_KEY || '',
+    local: env.VITE_LOCAL_API_KEY || ''
+  },
+  localBaseUrl: env.VITE_LOCAL_BASE_URL || 'http://localhost:11434/v1',
+  localToolsMode: (env.VITE_LOCAL_TOOLS as LocalToolsMode) || 'auto',
+  temperature: 0.6,
+  reasoningEffort: 'high',
+  debounceDelay: 2000,
+  compactionThreshold: 48000,
+  maxRetries: 2,
+  retryBaseDelay: 1000,
+  fallbackProviders: [],
+  // List prices for the default Kimi K2 models - adjust to match your account
+  prices: {
+    together: { prompt: 1.0, completion: 3.0 },
+    kimi: { prompt: 0.6, completion: 2.5 },
+    openrouter: { prompt: 0.4, completion: 1.9 },
+    local: { prompt: 0, completion: 0 }
+  },
+  monthlyBudget: 0,
+  mock: env.VITE_MOCK === 'true',
+  saveNotes: env.VITE_SAVE_NOTES === 'true',
+  saveMessages: env.VITE_SAVE_MESSAGES === 'true'
+}
+
+type SettingsListener = (settings: Settings, previous: Settings) => void
+
+const listeners = new Set<SettingsListener>()
+
+function loadSettings(): Settings {
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY)
+    if (!stored) {
+      return DEFAULT_SETTINGS
+    }
+
+    // Merge over defaults so settings added later get sensible values
+    const parsed = JSON.parse(stored) as Partial<Settings>
+    return {
+      ...DEFAULT_SETTINGS,
+      ...parsed,
+      models: { ...DEFAULT_SETTINGS.models, ...parsed.models },
+      apiKeys: { ...DEFAULT_SETTINGS.apiKeys, ...parsed.apiKeys },
+      prices: { ...DEFAULT_SETTINGS.prices, ...parsed.prices }
+    }
+  } catch (error) {
+    console.error('Error loading settings:', error)
+    return DEFAULT_SETTINGS
+  }
+}
+
+let currentSettings: Settings = loadSettings()
+
+// Current settings - call this at the point of use rather than caching the result
+export function getSettings(): Settings {
+  return currentSettings
+}
+
+// Apply a partial update, persist it and notify subscribers
+export function updateSettings(changes: Partial<Settings>): Settings {
+  const previous = currentSettings
+  currentSettings = { ...previous, ...changes }
+
+  try {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(currentSettings))
+  } catch (error) {
+    console.error('Error saving settings:', error)
+  }
+
+  listeners.forEach(listener => listener(currentSettings, previous))
+  return currentSettings
+}
+
+export function resetSettings(): Settings {
+  return updateSettings(DEFAULT_SETTINGS)
+}
+
+// Subscribe to settings changes - returns an unsubscribe function
+export function subscribeSettings(listener: SettingsListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
@@ -0,0 +1,202 @@
+// Resolve a text span quoted by the model to a range in the note content.
+// Tries progressively looser strategies: exact, whitespace/case-insensitive, then approximate
+// word-window matching with a similarity threshold.
+
+export type SpanMatchStrategy = 'exact' | 'whitespace' | 'fuzzy'
+
+export interface SpanMatch {
+  start: number // Offsets into the original content
+  end: number
+  text: string // The content actually covered (use this instead of the model's quote)
+  strategy: SpanMatchStrategy
+  score: number // 1 for exact/whitespace matches, similarity for fuzzy ones
+}
+
+export interface SpanResolution {
+  match: SpanMatch | null
+  candidates: string[] // Closest passages when nothing passed the threshold
+}
+
+export interface ResolveOptions {
+  threshold?: number // Minimum similarity for a fuzzy match (0-1)
+  maxCandidates?: number
+}
+
+const DEFAULT_THRESHOLD = 0.8
+const CANDIDATE_THRESHOLD = 0.5
+
+// Normalize quotes and dashes for consistent matching (all 1:1 character replacements)
+export function normalizeText(text: string): string {
+  return text
+    .replace(/\u201C/g, '"')  // Left double quote (") to straight quote
+    .replace(/\u201D/g, '"')  // Right double quote (") to straight quote
+    .replace(/\u2018/g, "'")  // Left single quote (') to straight quote
+    .replace(/\u2019/g, "'")  // Right single quote (') to straight quote
+    .replace(/\u2013/g, '-')  // En dash (–) to hyphen
+    .replace(/\u2014/g, '-')  // Em dash (—) to hyphen
+    .replace(/\u2015/g, '-')  // Horizontal bar (―) to hyphen
+}
+
+// Lowercase and collapse whitespace runs, keeping a map from folded index to original index
+function fold(text: string): { folded: string; map: number[] } {
+  const normalized = normalizeText(text)
+  let folded = ''
+  const map: number[] = []
+  let inWhitespace = false
+
+  for (let i = 0; i < normalized.length; i++) {
+    const char = normalized[i]
+    if (/\s/.test(char)) {
+      if (inWhitespace) continue
+      inWhitespace = true
+      folded += ' '
+    } else {
+      inWhitespace = false
+      folded += char.toLowerCase()[0] // Keep 1:1 even for chars that lowercase to two
+    }
+    map.push(i)
+  }
+
+  return { folded, map }
+}
+
+interface Word {
+  word: string // Lowercased, punctuation stripped
+  start: number // Original offsets
+  end: number
+}
+
+function tokenize(text: string): Word[] {
+  const normalized = normalizeText(text)
+  const words: Word[] = []
+  const pattern = /\S+/g
+  let match: RegExpExecArray | null
+
+  while ((match = pattern.exec(normalized)) !== null) {
+    const word = match[0].toLowerCase().replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '')
+    if (word) {
+      words.push({ word, start: match.index, end: match.index + match[0].length })
+    }
+  }
+
+  return words
+}
+
+// Levenshtein similarity between two strings (1 = identical)
+export function similarity(a: string, b: string): number {
+  if (a === b) return 1
+  if (!a.length || !b.length) return 0
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+    }
+    previous = current
+  }
+
+  return 1 - previous[b.length] / Math.max(a.length, b.length)
+}
+
+// Trim leading/trailing punctuation and whitespace from an original-content range
+function trimRange(content: string, start: number, end: number): { start: number; end: number } {
+  while (start < end && /[\s.,:;!?]/.test(content[start])) start++
+  while (end > start && /[\s.,:;!?]/.test(content[end - 1])) end--
+  return { start, end }
+}
+
+function findExact(content: string, span: string): SpanMatch | null {
+  const normalizedSpan = normalizeText(span)
+  const index = normalizeText(content).indexOf(normalizedSpan)
+  if (index === -1) return null
+  return { start: index, end: index + normalizedSpan.length, text: content.slice(index, index + normalizedSpan.length), strategy: 'exact', score: 1 }
+}
+
+function findIgnoringWhitespace(content: string, span: string): SpanMatch | null {
+  const foldedSpan = fold(span.trim()).folded
+  if (!foldedSpan) return null
+
+  const { folded, map } = fold(content)
+  const index = folded.indexOf(foldedSpan)
+  if (index === -1) return null
+
+  const start = map[index]
+  const end = map[index + foldedSpan.length - 1] + 1
+  return { start, end, text: content.slice(start, end), strategy: 'whitespace', score: 1 }
+}
+
+// Slide word windows around the span's length over the content and score them.
+// A cheap word-overlap score picks the most promising windows; only those get an edit-distance score.
+function findApproximate(content: string, span: string, maxResults: number): SpanMatch[] {
+  const spanWords = tokenize(span)
+  const contentWords = tokenize(content)
+  if (spanWords.length === 0 || contentWords.length === 0) return []
+
+  const spanCounts = new Map<string, number>()
+  spanWords.forEach(w => spanCounts.set(w.word, (spanCounts.get(w.word) || 0) + 1))
+  const spanText = spanWords.map(w => w.word).join(' ')
+
+  const slack = Math.max(1, Math.ceil(spanWords.length * 0.25))
+  const minLength = Math.max(1, spanWords.length - slack)
+  const maxLength = spanWords.length + slack
+
+  const windows: Array<{ from: number; to: number; overlap: number }> = []
+  for (let from = 0; from < contentWords.length; from++) {
+    const counts = new Map<string, number>()
+    let shared = 0
+    for (let length = 1; length <= maxLength && from + length <= contentWords.length; length++) {
+      const word = contentWords[from + length - 1].word
+      const seen = (counts.get(word) || 0) + 1
+      counts.set(word, seen)
+      if (seen <= (spanCounts.get(word) || 0)) shared++
+      if (length >= minLength && shared > 0) {
+        windows.push({ from, to: from + length, overlap: (2 * shared) / (length + spanWords.length) })
+      }
+    }
+  }
+
+  windows.sort((a, b) => b.overlap - a.overlap)
+
+  const scored: SpanMatch[] = []
+  for (const window of windows.slice(0, 20)) {
+    const windowText = contentWords.slice(window.from, window.to).map(w => w.word).join(' ')
+    const { start, end } = trimRange(content, contentWords[window.from].start, contentWords[window.to - 1].end)
+    scored.push({ start, end, text: content.slice(start, end), strategy: 'fuzzy', score: similarity(spanText, windowText) })
+  }
+
+  scored.sort((a, b) => b.score - a.score)
+
+  // Drop overlapping lower-scored windows so candidates are distinct passages
+  const distinct: SpanMatch[] = []
+  for (const match of scored) {
+    if (distinct.some(d => match.start < d.end && d.start < match.end)) continue
+    distinct.push(match)
+    if (distinct.length >= maxResults) break
+  }
+  return distinct
+}
+
+export function resolveSpan(content: string, span: string, options: ResolveOptions = {}): SpanResolution {
+  const { threshold = DEFAULT_THRESHOLD, maxCandidates = 3 } = options
+  if (!span || !span.trim()) {
+    return { match: null, candidates: [] }
+  }
+
+  const exact = findExact(content, span)
+  if (exact) return { match: exact, candidates: [] }
+
+  const whitespace = findIgnoringWhitespace(content, span)
+  if (whitespace) return { match: whitespace, candidates: [] }
+
+  const approximate = findApproximate(content, span, maxCandidates)
+  if (approximate.length > 0 && approximate[0].score >= threshold) {
+    return { match: approximate[0], candidates: [] }
+  }
+
+  return {
+    match: null,
+    candidates: approximate.filter(m => m.score >= CANDIDATE_THRESHOLD).map(m => m.text)
+  }
+}
@@ -0,0 +1,62 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach } from 'vitest'
+import { loadAll, saveNotes, saveAnnotations } from './storage'
+import { updateSettings } from './settings'
+import { NoteType, TextSpanAnnotation } from './types'
+
+const NOTE: NoteType = { id: 'note-1', title: 'Floods', content: 'The river flooded the valley.', createdAt: 1, updatedAt: 1 }
+
+const ANNOTATION: TextSpanAnnotation = {
+  annotationId: 'ann-1',
+  noteId: 'note-1',
+  textSpan: 'the valley',
+  annotation: { type: 'reference', records: [{ title: 'Rising Tide' }] }
+}
+
+async function saveWorkspace(notes: NoteType[], annotations: Map<string, TextSpanAnnotation[]>) {
+  await saveNotes(notes)
+  await saveAnnotations(annotations)
+}
+
+describe('storage', () => {
+  beforeEach(async () => {
+    updateSettings({ mock: false, saveNotes: true })
+    localStorage.clear()
+    await loadAll()
+    await saveWorkspace([NOTE], new Map([[NOTE.id, [ANNOTATION]]]))
+  })
+
+  it('keeps stored notes and annotations through a switch to mock data and back', async () => {
+    updateSettings({ mock: true })
+    const mock = await loadAll()
+    expect(mock.notes.map(note => note.id)).not.toContain(NOTE.id)
+    await saveWorkspace(mock.notes, mock.annotations)
+
+    updateSettings({ mock: false })
+    const { notes, annotations } = await loadAll()
+    expect(notes).toEqual([NOTE])
+    expect(annotations.get(NOTE.id)).toEqual([ANNOTATION])
+  })
+
+  it('does not store mock data when saving is turned on in mock mode', async () => {
+    updateSettings({ mock: true, saveNotes: false })
+    const mock = await loadAll()
+    updateSettings({ saveNotes: true })
+    await saveWorkspace(mock.notes, mock.annotations)
+
+    updateSettings({ mock: false })
+    expect((await loadAll()).notes).toEqual([NOTE])
+  })
+
+  it('keeps stored records that the last load did not bring into memory', async () => {
+    updateSettings({ saveNotes: false })
+    await loadAll()
+    updateSettings({ saveNotes: true })
+    const added = { ...NOTE, id: 'note-2' }
+    await saveWorkspace([added], new Map())
+
+    const { notes, annotations } = await loadAll()
+    expect(notes.map(note => note.id).sort()).toEqual([NOTE.id, added.id])
+    expect(annotations.get(NOTE.id)).toEqual([ANNOTATION])
+  })
+})
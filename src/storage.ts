@@ -1,11 +1,8 @@
 import { NoteType, TextSpanAnnotation, RecordType } from './types'
 import mockNoteContent from './mock/mockNoteContent'
 import mockAnnotationsData from './mock/mockAnnotations.json'
-
-const MOCK = import.meta.env.VITE_MOCK === 'true'
-const SHOULD_SAVE_NOTES = import.meta.env.VITE_SAVE_NOTES === 'true'
-const STORAGE_KEY = 'half-formed-thought-notes'
-const ANNOTATIONS_STORAGE_KEY = 'half-formed-thought-annotations'
+import { getSettings } from './settings'
+import { getStorage, handleStorageError } from './storageAdapter'
 
 // Type for raw mock annotation data from JSON
 interface MockAnnotationData {
@@ -54,117 +51,124 @@ function loadMock(): { notes: NoteType[]; annotations: Map<string, TextSpanAnnot
   return { notes: [note], annotations }
 }
 
-// Migration: extract annotations from old note format and return separately
-function migrateNote(note: any): { note: NoteType; annotations: TextSpanAnnotation[] } {
-  const annotations: TextSpanAnnotation[] = []
-
-  // If note has embedded annotations (old format), extract them
-  if (note.annotations && Array.isArray(note.annotations)) {
-    note.annotations.forEach((ann: any) => {
-      annotations.push({
-        ...ann,
-        noteId: note.id // Add noteId if missing
-      })
-    })
-  }
-
-  // Return note without annotations property
-  const { annotations: _, ...cleanNote } = note
-  return { note: cleanNote as NoteType, annotations }
-}
+// Last saved JSON of each note/annotation, so saves only write what changed
+const savedNotes = new Map<string, string>()
+const savedAnnotations = new Map<string, string>()
 
-export function loadNotes(): NoteType[] {
-  if (MOCK) {
+export async function loadNotes(): Promise<NoteType[]> {
+  if (getSettings().mock) {
     return loadMock().notes
   }
 
-  if (SHOULD_SAVE_NOTES) {
-    const stored = localStorage.getItem(STORAGE_KEY)
-    if (!stored) {
-      return []
-    }
-
-    const notes = JSON.parse(stored)
-    return notes.map((n: any) => {
-      const { annotations: _, ...cleanNote } = n
-      return cleanNote as NoteType
-    })
+  if (getSettings().saveNotes) {
+    const storage = await getStorage()
+    return storage.getNotes()
   }
 
   return []
 }
 
-// Load both notes and annotations, handling migration from old format
-export function loadAll(): { notes: NoteType[]; annotations: Map<string, TextSpanAnnotation[]> } {
-  if (MOCK) {
+// Load both notes and annotations (older data is migrated when storage opens)
+export async function loadAll(): Promise<{ notes: NoteType[]; annotations: Map<string, TextSpanAnnotation[]> }> {
+  // Only what this load reads from storage counts as saved, so a later save can't delete
+  // records that never reached memory (mock data, saving off, a failed read)
+  savedNotes.clear()
+  savedAnnotations.clear()
+
+  if (getSettings().mock) {
     return loadMock()
   }
 
   const annotations = new Map<string, TextSpanAnnotation[]>()
 
-  if (!SHOULD_SAVE_NOTES) {
+  if (!getSettings().saveNotes) {
     return { notes: [], annotations }
   }
 
-  // Load notes
-  const storedNotes = localStorage.getItem(STORAGE_KEY)
-  if (!storedNotes) {
+  let notes: NoteType[]
+  let storedAnnotations: TextSpanAnnotation[]
+  try {
+    const storage = await getStorage()
+    notes = await storage.getNotes()
+    storedAnnotations = await storage.getAnnotations()
+  } catch (error) {
+    handleStorageError(error, 'loading notes')
     return { notes: [], annotations }
   }
 
-  const rawNotes = JSON.parse(storedNotes)
-  const notes: NoteType[] = []
-  const migratedAnnotations: TextSpanAnnotation[] = []
+  // Newest first, whichever order the backend returns them in
+  notes.sort((a, b) => b.createdAt - a.createdAt)
 
-  // Migrate notes and extract embedded annotations
-  for (const rawNote of rawNotes) {
-    const { note, annotations: noteAnnotations } = migrateNote(rawNote)
-    notes.push(note)
-    migratedAnnotations.push(...noteAnnotations)
+  for (const ann of storedAnnotations) {
+    const existing = annotations.get(ann.noteId) || []
+    existing.push(ann)
+    annotations.set(ann.noteId, existing)
   }
 
-  // Load stored annotations (new format)
-  const storedAnnotations = localStorage.getItem(ANNOTATIONS_STORAGE_KEY)
-  if (storedAnnotations) {
-    const parsed = JSON.parse(storedAnnotations) as TextSpanAnnotation[]
-    for (const ann of parsed) {
-      const existing = annotations.get(ann.noteId) || []
-      existing.push(ann)
-      annotations.set(ann.noteId, existing)
-    }
-  }
+  // Remember what's stored so the next save only writes changes
+  notes.forEach(note => savedNotes.set(note.id, JSON.stringify(note)))
+  storedAnnotations.forEach(ann => savedAnnotations.set(ann.annotationId, JSON.stringify(ann)))
 
-  // Add migrated annotations (from old format)
-  for (const ann of migratedAnnotations) {
-    const existing = annotations.get(ann.noteId) || []
-    if (!existing.some(e => e.annotationId === ann.annotationId)) {
-      existing.push(ann)
-      annotations.set(ann.noteId, existing)
+  return { notes, annotations }
+}
+
+// Write the records that changed since the last save and delete the ones that are gone
+async function saveChanged<T>(
+  items: T[],
+  getId: (item: T) => string,
+  saved: Map<string, string>,
+  put: (item: T) => Promise<void>,
+  remove: (id: string) => Promise<void>
+): Promise<void> {
+  const ids = new Set<string>()
+  for (const item of items) {
+    const id = getId(item)
+    const json = JSON.stringify(item)
+    ids.add(id)
+    if (saved.get(id) !== json) {
+      await put(item)
+      saved.set(id, json)
     }
   }
-
-  // If we migrated any annotations, save them in new format and clean old notes
-  if (migratedAnnotations.length > 0) {
-    saveAnnotations(annotations)
-    saveNotes(notes)
+  for (const id of Array.from(saved.keys())) {
+    if (!ids.has(id)) {
+      await remove(id)
+      saved.delete(id)
+    }
   }
-
-  return { notes, annotations }
 }
 
-export function saveNotes(notes: NoteType[]): void {
-  if (SHOULD_SAVE_NOTES) {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(notes))
+// Mock data is never saved, over stored notes or alongside them
+export async function saveNotes(notes: NoteType[]): Promise<void> {
+  if (!getSettings().saveNotes || getSettings().mock) return
+
+  try {
+    const storage = await getStorage()
+    await saveChanged(notes, note => note.id, savedNotes, note => storage.putNote(note), id => storage.deleteNote(id))
+  } catch (error) {
+    handleStorageError(error, 'saving notes')
   }
 }
 
-export function saveAnnotations(annotations: Map<string, TextSpanAnnotation[]>): void {
-  if (SHOULD_SAVE_NOTES) {
-    const allAnnotations: TextSpanAnnotation[] = []
-    annotations.forEach(noteAnnotations => {
-      allAnnotations.push(...noteAnnotations)
-    })
-    localStorage.setItem(ANNOTATIONS_STORAGE_KEY, JSON.stringify(allAnnotations))
+export async function saveAnnotations(annotations: Map<string, TextSpanAnnotation[]>): Promise<void> {
+  if (!getSettings().saveNotes || getSettings().mock) return
+
+  const allAnnotations: TextSpanAnnotation[] = []
+  annotations.forEach(noteAnnotations => {
+    allAnnotations.push(...noteAnnotations)
+  })
+
+  try {
+    const storage = await getStorage()
+    await saveChanged(
+      allAnnotations,
+      ann => ann.annotationId,
+      savedAnnotations,
+      ann => storage.putAnnotation(ann),
+      id => storage.deleteAnnotation(id)
+    )
+  } catch (error) {
+    handleStorageError(error, 'saving annotations')
   }
 }
 
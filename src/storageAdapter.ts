@@ -0,0 +1,442 @@
+import { NoteType, TextSpanAnnotation, Checkpoint, AnnotationSnapshot } from './types'
+import { Message } from './LLMService'
+import { SchemaVersions, migrateStorage } from './migrations'
+
+// Persistence for notes, annotations, conversations, checkpoints and the annotation snapshots
+// checkpoints refer to. Everything goes through
+// a StorageAdapter so each record is read and written on its own: IndexedDB when the browser
+// has it, localStorage otherwise. Settings and usage records stay in localStorage.
+
+export interface StorageAdapter {
+  readonly name: string
+
+  getNotes(): Promise<NoteType[]>
+  putNote(note: NoteType): Promise<void>
+  deleteNote(noteId: string): Promise<void>
+
+  getAnnotations(): Promise<TextSpanAnnotation[]>
+  putAnnotation(annotation: TextSpanAnnotation): Promise<void>
+  deleteAnnotation(annotationId: string): Promise<void>
+
+  getMessages(noteId: string): Promise<Message[]>
+  getAllMessages(): Promise<Record<string, Message[]>> // noteId -> messages
+  putMessages(noteId: string, messages: Message[]): Promise<void>
+  deleteMessages(noteId: string): Promise<void>
+
+  getCheckpoints(noteId: string): Promise<Checkpoint[]> // Oldest first
+  getAllCheckpoints(): Promise<Record<string, Checkpoint[]>> // noteId -> checkpoints
+  putCheckpoint(noteId: string, checkpoint: Checkpoint): Promise<void>
+  deleteCheckpoint(noteId: string, checkpointId: string): Promise<void>
+  deleteCheckpoints(noteId: string): Promise<void>
+
+  getSnapshot(hash: string): Promise<AnnotationSnapshot | null>
+  getAllSnapshots(): Promise<Record<string, AnnotationSnapshot>> // hash -> snapshot
+  putSnapshot(hash: string, snapshot: AnnotationSnapshot): Promise<void>
+  deleteSnapshot(hash: string): Promise<void>
+
+  getSchemaVersions(): Promise<SchemaVersions | null> // null until versions are first recorded
+  putSchemaVersions(versions: SchemaVersions): Promise<void>
+}
+
+type StorageWarningListener = (message: string) => void
+
+const NOTES_KEY = 'half-formed-thought-notes'
+const ANNOTATIONS_KEY = 'half-formed-thought-annotations'
+const MESSAGES_KEY = 'half-formed-thought-conversations'
+const CHECKPOINTS_KEY = `${MESSAGES_KEY}-checkpoints`
+const SNAPSHOTS_KEY = 'half-formed-thought-annotation-snapshots'
+const SCHEMA_KEY = 'half-formed-thought-schema'
+
+// Set once the localStorage data has been copied into IndexedDB
+const MIGRATION_FLAG_KEY = 'half-formed-thought-storage-migrated'
+
+const DB_NAME = 'half-formed-thought'
+const DB_VERSION = 3
+const NOTES_STORE = 'notes'
+const ANNOTATIONS_STORE = 'annotations'
+const MESSAGES_STORE = 'conversations'
+const CHECKPOINTS_STORE = 'checkpoints'
+const SNAPSHOTS_STORE = 'snapshots'
+const META_STORE = 'meta'
+
+const warningListeners = new Set<StorageWarningListener>()
+
+function byTimestamp(a: Checkpoint, b: Checkpoint): number {
+  return a.timestamp - b.timestamp
+}
+
+// The original layout: one JSON value per kind of record, rewritten on every change
+export class LocalStorageAdapter implements StorageAdapter {
+  readonly name = 'localStorage'
+
+  private read<T>(key: string, fallback: T): T {
+    const stored = localStorage.getItem(key)
+    return stored ? JSON.parse(stored) : fallback
+  }
+
+  private write(key: string, value: unknown): void {
+    localStorage.setItem(key, JSON.stringify(value))
+  }
+
+  async getNotes(): Promise<NoteType[]> {
+    return this.read<NoteType[]>(NOTES_KEY, [])
+  }
+
+  async putNote(note: NoteType): Promise<void> {
+    const notes = this.read<NoteType[]>(NOTES_KEY, [])
+    const index = notes.findIndex(n => n.id === note.id)
+    if (index === -1) {
+      notes.unshift(note)
+    } else {
+      notes[index] = note
+    }
+    this.write(NOTES_KEY, notes)
+  }
+
+  async deleteNote(noteId: string): Promise<void> {
+    this.write(NOTES_KEY, this.read<NoteType[]>(NOTES_KEY, []).filter(n => n.id !== noteId))
+  }
+
+  async getAnnotations(): Promise<TextSpanAnnotation[]> {
+    return this.read<TextSpanAnnotation[]>(ANNOTATIONS_KEY, [])
+  }
+
+  async putAnnotation(annotation: TextSpanAnnotation): Promise<void> {
+    const annotations = this.read<TextSpanAnnotation[]>(ANNOTATIONS_KEY, [])
+    const index = annotations.findIndex(a => a.annotationId === annotation.annotationId)
+    if (index === -1) {
+      annotations.push(annotation)
+    } else {
+      annotations[index] = annotation
+    }
+    this.write(ANNOTATIONS_KEY, annotations)
+  }
+
+  async deleteAnnotation(annotationId: string): Promise<void> {
+    this.write(ANNOTATIONS_KEY, this.read<TextSpanAnnotation[]>(ANNOTATIONS_KEY, []).filter(a => a.annotationId !== annotationId))
+  }
+
+  async getMessages(noteId: string): Promise<Message[]> {
+    return this.read<Record<string, Message[]>>(MESSAGES_KEY, {})[noteId] || []
+  }
+
+  async getAllMessages(): Promise<Record<string, Message[]>> {
+    return this.read<Record<string, Message[]>>(MESSAGES_KEY, {})
+  }
+
+  async putMessages(noteId: string, messages: Message[]): Promise<void> {
+    const conversations = this.read<Record<string, Message[]>>(MESSAGES_KEY, {})
+    conversations[noteId] = messages
+    this.write(MESSAGES_KEY, conversations)
+  }
+
+  async deleteMessages(noteId: string): Promise<void> {
+    const conversations = this.read<Record<string, Message[]>>(MESSAGES_KEY, {})
+    delete conversations[noteId]
+    this.write(MESSAGES_KEY, conversations)
+  }
+
+  async getCheckpoints(noteId: string): Promise<Checkpoint[]> {
+    return [...(this.read<Record<string, Checkpoint[]>>(CHECKPOINTS_KEY, {})[noteId] || [])].sort(byTimestamp)
+  }
+
+  async getAllCheckpoints(): Promise<Record<string, Checkpoint[]>> {
+    return this.read<Record<string, Checkpoint[]>>(CHECKPOINTS_KEY, {})
+  }
+
+  async putCheckpoint(noteId: string, checkpoint: Checkpoint): Promise<void> {
+    const allCheckpoints = this.read<Record<string, Checkpoint[]>>(CHECKPOINTS_KEY, {})
+    const checkpoints = (allCheckpoints[noteId] || []).filter(c => c.checkpointId !== checkpoint.checkpointId)
+    allCheckpoints[noteId] = [...checkpoints, checkpoint].sort(byTimestamp)
+    this.write(CHECKPOINTS_KEY, allCheckpoints)
+  }
+
+  async deleteCheckpoint(noteId: string, checkpointId: string): Promise<void> {
+    const allCheckpoints = this.read<Record<string, Checkpoint[]>>(CHECKPOINTS_KEY, {})
+    allCheckpoints[noteId] = (allCheckpoints[noteId] || []).filter(c => c.checkpointId !== checkpointId)
+    this.write(CHECKPOINTS_KEY, allCheckpoints)
+  }
+
+  async deleteCheckpoints(noteId: string): Promise<void> {
+    const allCheckpoints = this.read<Record<string, Checkpoint[]>>(CHECKPOINTS_KEY, {})
+    delete allCheckpoints[noteId]
+    this.write(CHECKPOINTS_KEY, allCheckpoints)
+  }
+
+  async getSnapshot(hash: string): Promise<AnnotationSnapshot | null> {
+    return this.read<Record<string, AnnotationSnapshot>>(SNAPSHOTS_KEY, {})[hash] || null
+  }
+
+  async getAllSnapshots(): Promise<Record<string, AnnotationSnapshot>> {
+    return this.read<Record<string, AnnotationSnapshot>>(SNAPSHOTS_KEY, {})
+  }
+
+  async putSnapshot(hash: string, snapshot: AnnotationSnapshot): Promise<void> {
+    const snapshots = this.read<Record<string, AnnotationSnapshot>>(SNAPSHOTS_KEY, {})
+    snapshots[hash] = snapshot
+    this.write(SNAPSHOTS_KEY, snapshots)
+  }
+
+  async deleteSnapshot(hash: string): Promise<void> {
+    const snapshots = this.read<Record<string, AnnotationSnapshot>>(SNAPSHOTS_KEY, {})
+    delete snapshots[hash]
+    this.write(SNAPSHOTS_KEY, snapshots)
+  }
+
+  async getSchemaVersions(): Promise<SchemaVersions | null> {
+    return this.read<SchemaVersions | null>(SCHEMA_KEY, null)
+  }
+
+  async putSchemaVersions(versions: SchemaVersions): Promise<void> {
+    this.write(SCHEMA_KEY, versions)
+  }
+
+  // Drop everything this adapter stores (after it has been copied elsewhere)
+  clear(): void {
+    [NOTES_KEY, ANNOTATIONS_KEY, MESSAGES_KEY, CHECKPOINTS_KEY, SNAPSHOTS_KEY, SCHEMA_KEY].forEach(key => localStorage.removeItem(key))
+  }
+}
+
+// One object store per kind of record, keyed so every note/annotation/checkpoint is its own row
+export class IndexedDBAdapter implements StorageAdapter {
+  readonly name = 'IndexedDB'
+  private db: IDBDatabase
+
+  private constructor(db: IDBDatabase) {
+    this.db = db
+  }
+
+  static open(): Promise<IndexedDBAdapter> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = (event) => {
+        const db = request.result
+        if (event.oldVersion < 1) {
+          db.createObjectStore(NOTES_STORE, { keyPath: 'id' })
+          db.createObjectStore(ANNOTATIONS_STORE, { keyPath: 'annotationId' }).createIndex('noteId', 'noteId')
+          db.createObjectStore(MESSAGES_STORE, { keyPath: 'noteId' })
+          // Checkpoint IDs are only unique within a note (restored backups may repeat them)
+          db.createObjectStore(CHECKPOINTS_STORE, { keyPath: ['noteId', 'checkpointId'] }).createIndex('noteId', 'noteId')
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore(META_STORE, { keyPath: 'key' })
+        }
+        if (event.oldVersion < 3) {
+          db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'hash' })
+        }
+      }
+      request.onsuccess = () => resolve(new IndexedDBAdapter(request.result))
+      request.onerror = () => reject(request.error)
+      request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another open tab'))
+    })
+  }
+
+  // Run one request in its own transaction. Resolves once the transaction commits, so
+  // write errors (including QuotaExceededError on abort) reject the promise.
+  private run<T>(storeName: string, mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const transaction = this.db.transaction(storeName, mode)
+      const request = operation(transaction.objectStore(storeName))
+      transaction.oncomplete = () => resolve(request.result)
+      transaction.onerror = () => reject(transaction.error || request.error)
+      transaction.onabort = () => reject(transaction.error || new Error('IndexedDB transaction aborted'))
+    })
+  }
+
+  async getNotes(): Promise<NoteType[]> {
+    return this.run<NoteType[]>(NOTES_STORE, 'readonly', store => store.getAll())
+  }
+
+  async putNote(note: NoteType): Promise<void> {
+    await this.run(NOTES_STORE, 'readwrite', store => store.put(note))
+  }
+
+  async deleteNote(noteId: string): Promise<void> {
+    await this.run(NOTES_STORE, 'readwrite', store => store.delete(noteId))
+  }
+
+  async getAnnotations(): Promise<TextSpanAnnotation[]> {
+    return this.run<TextSpanAnnotation[]>(ANNOTATIONS_STORE, 'readonly', store => store.getAll())
+  }
+
+  async putAnnotation(annotation: TextSpanAnnotation): Promise<void> {
+    await this.run(ANNOTATIONS_STORE, 'readwrite', store => store.put(annotation))
+  }
+
+  async deleteAnnotation(annotationId: string): Promise<void> {
+    await this.run(ANNOTATIONS_STORE, 'readwrite', store => store.delete(annotationId))
+  }
+
+  async getMessages(noteId: string): Promise<Message[]> {
+    const row = await this.run<{ noteId: string; messages: Message[] } | undefined>(MESSAGES_STORE, 'readonly', store => store.get(noteId))
+    return row ? row.messages : []
+  }
+
+  async getAllMessages(): Promise<Record<string, Message[]>> {
+    const rows = await this.run<Array<{ noteId: string; messages: Message[] }>>(MESSAGES_STORE, 'readonly', store => store.getAll())
+    return Object.fromEntries(rows.map(row => [row.noteId, row.messages]))
+  }
+
+  async putMessages(noteId: string, messages: Message[]): Promise<void> {
+    await this.run(MESSAGES_STORE, 'readwrite', store => store.put({ noteId, messages }))
+  }
+
+  async deleteMessages(noteId: string): Promise<void> {
+    await this.run(MESSAGES_STORE, 'readwrite', store => store.delete(noteId))
+  }
+
+  async getCheckpoints(noteId: string): Promise<Checkpoint[]> {
+    const rows = await this.run<Array<Checkpoint & { noteId: string }>>(CHECKPOINTS_STORE, 'readonly', store => store.index('noteId').getAll(noteId))
+    return rows.map(({ noteId: _, ...checkpoint }) => checkpoint).sort(byTimestamp)
+  }
+
+  async getAllCheckpoints(): Promise<Record<string, Checkpoint[]>> {
+    const rows = await this.run<Array<Checkpoint & { noteId: string }>>(CHECKPOINTS_STORE, 'readonly', store => store.getAll())
+    const allCheckpoints: Record<string, Checkpoint[]> = {}
+    rows.sort(byTimestamp).forEach(({ noteId, ...checkpoint }) => {
+      allCheckpoints[noteId] = [...(allCheckpoints[noteId] || []), checkpoint]
+    })
+    return allCheckpoints
+  }
+
+  async putCheckpoint(noteId: string, checkpoint: Checkpoint): Promise<void> {
+    await this.run(CHECKPOINTS_STORE, 'readwrite', store => store.put({ ...checkpoint, noteId }))
+  }
+
+  async deleteCheckpoint(noteId: string, checkpointId: string): Promise<void> {
+    await this.run(CHECKPOINTS_STORE, 'readwrite', store => store.delete([noteId, checkpointId]))
+  }
+
+  async deleteCheckpoints(noteId: string): Promise<void> {
+    await this.run(CHECKPOINTS_STORE, 'readwrite', store => store.delete(IDBKeyRange.bound([noteId], [noteId, []])))
+  }
+
+  async getSnapshot(hash: string): Promise<AnnotationSnapshot | null> {
+    const row = await this.run<{ hash: string; snapshot: AnnotationSnapshot } | undefined>(SNAPSHOTS_STORE, 'readonly', store => store.get(hash))
+    return row ? row.snapshot : null
+  }
+
+  async getAllSnapshots(): Promise<Record<string, AnnotationSnapshot>> {
+    const rows = await this.run<Array<{ hash: string; snapshot: AnnotationSnapshot }>>(SNAPSHOTS_STORE, 'readonly', store => store.getAll())
+    return Object.fromEntries(rows.map(row => [row.hash, row.snapshot]))
+  }
+
+  async putSnapshot(hash: string, snapshot: AnnotationSnapshot): Promise<void> {
+    await this.run(SNAPSHOTS_STORE, 'readwrite', store => store.put({ hash, snapshot }))
+  }
+
+  async deleteSnapshot(hash: string): Promise<void> {
+    await this.run(SNAPSHOTS_STORE, 'readwrite', store => store.delete(hash))
+  }
+
+  async getSchemaVersions(): Promise<SchemaVersions | null> {
+    const row = await this.run<{ key: string; versions: SchemaVersions } | undefined>(META_STORE, 'readonly', store => store.get('schemaVersions'))
+    return row ? row.versions : null
+  }
+
+  async putSchemaVersions(versions: SchemaVersions): Promise<void> {
+    await this.run(META_STORE, 'readwrite', store => store.put({ key: 'schemaVersions', versions }))
+  }
+}
+
+// Copy everything from localStorage into IndexedDB, then free the localStorage space
+async function migrateFromLocalStorage(from: LocalStorageAdapter, to: IndexedDBAdapter): Promise<void> {
+  const [notes, annotations, conversations, checkpoints, snapshots, versions] = await Promise.all([
+    from.getNotes(),
+    from.getAnnotations(),
+    from.getAllMessages(),
+    from.getAllCheckpoints(),
+    from.getAllSnapshots(),
+    from.getSchemaVersions()
+  ])
+
+  // Records go in as stored - schema migrations run on the new backend afterwards
+  for (const note of notes) await to.putNote(note)
+  for (const annotation of annotations) await to.putAnnotation(annotation)
+  for (const [noteId, messages] of Object.entries(conversations)) await to.putMessages(noteId, messages)
+  for (const [noteId, noteCheckpoints] of Object.entries(checkpoints)) {
+    for (const checkpoint of noteCheckpoints) await to.putCheckpoint(noteId, checkpoint)
+  }
+  for (const [hash, snapshot] of Object.entries(snapshots)) await to.putSnapshot(hash, snapshot)
+  if (versions) await to.putSchemaVersions(versions)
+
+  localStorage.setItem(MIGRATION_FLAG_KEY, new Date().toISOString())
+  from.clear()
+  console.log(`Moved ${notes.length} notes and ${annotations.length} annotations to IndexedDB`)
+}
+
+async function openBackend(): Promise<StorageAdapter> {
+  const local = new LocalStorageAdapter()
+  if (typeof indexedDB === 'undefined') {
+    return local
+  }
+
+  try {
+    const adapter = await IndexedDBAdapter.open()
+    if (!localStorage.getItem(MIGRATION_FLAG_KEY)) {
+      await migrateFromLocalStorage(local, adapter)
+    }
+    return adapter
+  } catch (error) {
+    // Private browsing modes may refuse IndexedDB - keep working from localStorage
+    console.error('IndexedDB unavailable, using localStorage:', error)
+    return local
+  }
+}
+
+async function openStorage(): Promise<StorageAdapter> {
+  const adapter = await openBackend()
+
+  // Bring older data up to the current schema; if the result doesn't validate, the data is
+  // left as it was rather than half-converted
+  try {
+    const report = await migrateStorage(adapter)
+    if (report.errors.length > 0) {
+      console.error('Stored data failed validation:', report.errors)
+      reportStorageWarning('Some saved data doesn\'t match what this version expects, so it was left unchanged. Use "Check saved data" in Settings for details, and download a backup from Export before editing.')
+    }
+  } catch (error) {
+    handleStorageError(error, 'updating saved data')
+  }
+
+  return adapter
+}
+
+let storagePromise: Promise<StorageAdapter> | null = null
+
+// Shared adapter; the first call opens it (and migrates old data once)
+export function getStorage(): Promise<StorageAdapter> {
+  if (!storagePromise) {
+    storagePromise = openStorage()
+  }
+  return storagePromise
+}
+
+function isQuotaError(error: any): boolean {
+  return !!error && (
+    error.name === 'QuotaExceededError' ||
+    error.name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+    error.code === 22
+  )
+}
+
+// Show a storage problem to the user
+export function reportStorageWarning(message: string): void {
+  warningListeners.forEach(listener => listener(message))
+}
+
+// Log a failed read/write; running out of space is also shown to the user
+export function handleStorageError(error: unknown, context: string): void {
+  console.error(`Error ${context}:`, error)
+  if (isQuotaError(error)) {
+    reportStorageWarning(`Storage is full, so ${context} failed. Download a backup from Export, then delete old notes to free space.`)
+  }
+}
+
+// Subscribe to storage warnings - returns an unsubscribe function
+export function subscribeStorageWarnings(listener: StorageWarningListener): () => void {
+  warningListeners.add(listener)
+  return () => {
+    warningListeners.delete(listener)
+  }
+}
@@ -0,0 +1,119 @@
+// @vitest-environment jsdom
+import { describe, it, expect, afterEach } from 'vitest'
+import { Editor } from '@tiptap/core'
+import StarterKit from '@tiptap/starter-kit'
+import { FootnoteReference, ANALYSIS_TEXT_SERIALIZERS, stripFootnoteMarkers } from './Footnote'
+import { buildTextPositionMap, offsetsToRange, positionToOffset, TextPositionMap } from './textPositions'
+
+let editor: Editor | null = null
+
+function createEditor(content: string): Editor {
+  editor = new Editor({ extensions: [StarterKit, FootnoteReference], content })
+  return editor
+}
+
+// Offsets of characters that come from text nodes (not separators, breaks or atoms)
+function textOffsets(editor: Editor, map: TextPositionMap): number[] {
+  return map.positions
+    .map((pos, offset) => ({ pos, offset }))
+    .filter(({ pos }) => editor.state.doc.nodeAt(pos)?.isText)
+    .map(({ offset }) => offset)
+}
+
+afterEach(() => {
+  editor?.destroy()
+  editor = null
+})
+
+describe('buildTextPositionMap', () => {
+  it('matches getText() across paragraphs', () => {
+    const editor = createEditor('<p>First paragraph</p><p>Second one</p><p>Third</p>')
+    const map = buildTextPositionMap(editor.state.doc)
+
+    expect(map.text).toBe(editor.getText())
+    expect(map.end).toBe(editor.state.doc.content.size - 1)
+  })
+
+  it('maps every text character to its document position', () => {
+    const editor = createEditor('<p>Alpha beta</p><p>Gamma<br>delta<br><br>epsilon</p><ul><li><p>Item</p></li></ul>')
+    const map = buildTextPositionMap(editor.state.doc)
+
+    expect(map.text).toBe(editor.getText())
+    const offsets = textOffsets(editor, map)
+    let textLength = 0
+    editor.state.doc.descendants(node => { textLength += node.isText ? node.text.length : 0 })
+    expect(offsets.length).toBe(textLength)
+    offsets.forEach(offset => {
+      const pos = map.positions[offset]
+      expect(editor.state.doc.textBetween(pos, pos + 1)).toBe(map.text[offset])
+      expect(positionToOffset(map, pos)).toBe(offset)
+    })
+  })
+
+  it('finds ranges on either side of block separators', () => {
+    const editor = createEditor('<p>One two</p><p>three four</p>')
+    const map = buildTextPositionMap(editor.state.doc)
+    const { doc } = editor.state
+
+    const start = map.text.indexOf('three')
+    const range = offsetsToRange(map, start, start + 'three four'.length)
+    expect(doc.textBetween(range.from, range.to)).toBe('three four')
+
+    // A range spanning the separator covers the end of one paragraph and the start of the next
+    const across = offsetsToRange(map, map.text.indexOf('two'), start + 'three'.length)
+    expect(doc.textBetween(across.from, across.to, '\n\n')).toBe('two\n\nthree')
+  })
+
+  it('gives hard breaks one position each', () => {
+    const editor = createEditor('<p>Line one<br>Line two<br><br>Line four</p>')
+    const map = buildTextPositionMap(editor.state.doc)
+    const { doc } = editor.state
+
+    expect(map.text).toBe(editor.getText())
+    expect(map.text).toBe('Line one\nLine two\n\nLine four')
+    Array.from(map.text).forEach((char, offset) => {
+      if (char === '\n') {
+        expect(doc.nodeAt(map.positions[offset]).type.name).toBe('hardBreak')
+      }
+    })
+
+    const start = map.text.indexOf('Line four')
+    const range = offsetsToRange(map, start, start + 'Line four'.length)
+    expect(doc.textBetween(range.from, range.to)).toBe('Line four')
+  })
+
+  it('puts the whole text of an inline atom on the atom', () => {
+    const editor = createEditor('<p>Cited claim<sup data-footnote-id="fn-abc123"></sup> and more</p><p>Next</p>')
+    const map = buildTextPositionMap(editor.state.doc)
+    const { doc } = editor.state
+
+    expect(map.text).toBe(editor.getText())
+    const marker = '[^fn-abc123]'
+    const markerStart = map.text.indexOf(marker)
+    const atomPositions = new Set(map.positions.slice(markerStart, markerStart + marker.length))
+    expect(atomPositions.size).toBe(1)
+    expect(doc.nodeAt([...atomPositions][0]).type.name).toBe('footnoteReference')
+
+    // Text after the atom still lands on the right characters
+    const start = map.text.indexOf(' and more')
+    const range = offsetsToRange(map, start, start + ' and more'.length)
+    expect(doc.textBetween(range.from, range.to)).toBe(' and more')
+    const next = map.text.indexOf('Next')
+    const nextRange = offsetsToRange(map, next, next + 4)
+    expect(doc.textBetween(nextRange.from, nextRange.to)).toBe('Next')
+  })
+
+  it('leaves citation markers out of the analysis text', () => {
+    const editor = createEditor('<p>Cited claim<sup data-footnote-id="fn-abc123"></sup> and more</p>')
+    const map = buildTextPositionMap(editor.state.doc, ANALYSIS_TEXT_SERIALIZERS)
+    const { doc } = editor.state
+
+    expect(map.text).toBe('Cited claim and more')
+    expect(map.text).toBe(editor.getText({ textSerializers: ANALYSIS_TEXT_SERIALIZERS }))
+    expect(map.text).toBe(stripFootnoteMarkers(editor.getText()))
+
+    const start = map.text.indexOf('claim and')
+    const range = offsetsToRange(map, start, start + 'claim and'.length)
+    expect(doc.textBetween(range.from, range.to, undefined, '')).toBe('claim and')
+  })
+})
@@ -0,0 +1,91 @@
+import { getTextSerializersFromSchema, TextSerializer } from '@tiptap/react'
+import { Node as ProseMirrorNode } from '@tiptap/pm/model'
+
+// Mapping between the note's plain text (what editor.getText() returns and what spans are
+// matched against) and ProseMirror document positions. Positions are not plain-text index + 1:
+// every block boundary and hard break occupies document positions of its own.
+
+const BLOCK_SEPARATOR = '\n\n' // Same default as editor.getText()
+
+export interface TextPositionMap {
+  text: string
+  positions: number[] // Document position of each character in `text`
+  end: number // Position just after the last character
+}
+
+// Walk the document the way getText() serializes it, recording where each character lives.
+// textSerializers override the schema's, as they do for getText().
+export function buildTextPositionMap(doc: ProseMirrorNode, textSerializers: Record<string, TextSerializer> = {}): TextPositionMap {
+  const serializers = { ...getTextSerializersFromSchema(doc.type.schema), ...textSerializers }
+  let text = ''
+  const positions: number[] = []
+  let end = 0
+
+  const append = (chunk: string, pos: number, step: number) => {
+    for (let i = 0; i < chunk.length; i++) {
+      positions.push(pos + i * step)
+    }
+    text += chunk
+  }
+
+  doc.nodesBetween(0, doc.content.size, (node, pos, parent, index) => {
+    if (node.isBlock && pos > 0) {
+      // Separator characters sit on the boundary before the block they introduce
+      append(BLOCK_SEPARATOR, pos, 0)
+    }
+
+    const textSerializer = serializers[node.type.name]
+    if (textSerializer) {
+      if (parent) {
+        // Leaf nodes like hard breaks occupy one position whatever they serialize to
+        append(textSerializer({ node, pos, parent, index, range: { from: 0, to: doc.content.size } }), pos, 0)
+        end = pos + node.nodeSize
+      }
+      return false
+    }
+
+    if (node.isText && node.text) {
+      append(node.text, pos, 1)
+      end = pos + node.nodeSize
+    }
+    return true
+  })
+
+  return { text, positions, end: end || 1 }
+}
+
+// Document range covering plain-text offsets [start, end)
+export function offsetsToRange(map: TextPositionMap, start: number, end: number): { from: number; to: number } | null {
+  if (start < 0 || end > map.text.length || start >= end) return null
+
+  const from = map.positions[start]
+  // A range ending on a hard break or separator ends right after that node
+  const to = map.positions[end - 1] + 1
+  return from < to ? { from, to } : null
+}
+
+// Plain-text offset at (or just after) a document position
+export function positionToOffset(map: TextPositionMap, pos: number): number {
+  let low = 0
+  let high = map.positions.length
+  while (low < high) {
+    const mid = (low + high) >> 1
+    if (map.positions[mid] < pos) {
+      low = mid + 1
+    } else {
+      high = mid
+    }
+  }
+  return low
+}
+
+// Plain-text offsets covered by a document range
+export function rangeToOffsets(map: TextPositionMap, from: number, to: number): { start: number; end: number } {
+  return { start: positionToOffset(map, from), end: positionToOffset(map, to) }
+}
+
+// Document position for inserting text at a plain-text offset (right after the preceding character)
+export function offsetToInsertPosition(map: TextPositionMap, offset: number): number {
+  if (offset <= 0) return map.positions[0] ?? 1
+  return map.positions[Math.min(offset, map.positions.length) - 1] + 1
+}
@@ -0,0 +1,111 @@
+import { jsonrepair } from 'jsonrepair'
+
+// The subset of JSON Schema used by the tool definitions in analyzer.ts
+export interface JSONSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean'
+  description?: string
+  properties?: Record<string, JSONSchema>
+  required?: string[]
+  items?: JSONSchema
+  minItems?: number
+  maxItems?: number
+  minLength?: number
+  enum?: any[]
+}
+
+// Thrown when a tool call's arguments can't be parsed or don't match the tool's schema.
+// `errors` is the field-level list sent back to the model so it can correct the call.
+export class ToolArgumentsError extends Error {
+  errors: string[]
+
+  constructor(message: string, errors: string[]) {
+    super(message)
+    this.name = 'ToolArgumentsError'
+    this.errors = errors
+  }
+}
+
+function describeType(value: any): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value
+}
+
+function matchesType(value: any, type: JSONSchema['type']): boolean {
+  switch (type) {
+    case 'object':
+      return value !== null && typeof value === 'object' && !Array.isArray(value)
+    case 'array':
+      return Array.isArray(value)
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value)
+    case 'number':
+      return typeof value === 'number' && !isNaN(value)
+    default:
+      return typeof value === type
+  }
+}
+
+// Validate a value against a schema, returning one message per problem (empty when valid).
+// Paths are written the way the model sees the arguments, e.g. `records[1].title`.
+export function validateSchema(value: any, schema: JSONSchema, path: string = ''): string[] {
+  const label = path || 'arguments'
+  const errors: string[] = []
+
+  if (schema.type && !matchesType(value, schema.type)) {
+    return [`${label}: expected ${schema.type}, got ${describeType(value)}`]
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${label}: must be one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}`)
+  }
+
+  if (typeof value === 'string' && schema.minLength !== undefined && value.trim().length < schema.minLength) {
+    errors.push(`${label}: must not be empty`)
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${label}: expected at least ${schema.minItems} item(s), got ${value.length}`)
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${label}: expected at most ${schema.maxItems} item(s), got ${value.length}`)
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        errors.push(...validateSchema(item, schema.items!, `${path}[${index}]`))
+      })
+    }
+  }
+
+  if (schema.type === 'object' && value && typeof value === 'object') {
+    for (const key of schema.required || []) {
+      if (value[key] === undefined || value[key] === null) {
+        errors.push(`${path ? `${path}.` : ''}${key}: is required`)
+      }
+    }
+    for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+      if (value[key] !== undefined && value[key] !== null) {
+        errors.push(...validateSchema(value[key], propertySchema, path ? `${path}.${key}` : key))
+      }
+    }
+  }
+
+  return errors
+}
+
+// Parse raw tool-call arguments, repairing truncated or sloppy JSON when possible
+export function parseToolArguments(raw: string): { args: any; repaired: boolean } {
+  const text = raw?.trim() || '{}'
+
+  try {
+    return { args: JSON.parse(text), repaired: false }
+  } catch (parseError) {
+    try {
+      return { args: JSON.parse(jsonrepair(text)), repaired: true }
+    } catch {
+      const reason = parseError instanceof Error ? parseError.message : 'invalid JSON'
+      throw new ToolArgumentsError('Could not parse tool arguments', [`arguments: not valid JSON (${reason})`])
+    }
+  }
+}
@@ -1,3 +1,5 @@
+import { Message } from './LLMService'
+
 export interface RecordType {
   description?: string
   title?: string
@@ -32,6 +34,16 @@ export interface ConnectionAnnotation extends BaseAnnotation {
 // Union type for all annotations
 export type Annotation = ReferenceAnnotation | ListAnnotation | ConnectionAnnotation
 
+// Where a text span sits in the note, after the W3C Web Annotation
+// TextQuoteSelector (exact/prefix/suffix) and TextPositionSelector (start/end)
+export interface TextAnchor {
+  exact: string
+  prefix: string // Text just before the span, to tell repeated phrases apart
+  suffix: string // Text just after the span
+  start: number // Offsets into the note's plain text
+  end: number
+}
+
 // Text span annotation entry (stored + in-memory representation)
 export interface TextSpanAnnotation {
   annotationId: string
@@ -39,6 +51,8 @@ export interface TextSpanAnnotation {
   textSpan: string | string[] // Single for reference/list, array for connection
   annotation: Annotation // Annotation metadata (records/extensions)
   checkpointId?: string // Which checkpoint created this annotation
+  anchors?: TextAnchor[] // One per text span, kept current as the note is edited
+  orphaned?: boolean // Could no longer be anchored - listed separately instead of marked
 }
 
 // Helper to normalize textSpan to always work with arrays
@@ -46,13 +60,47 @@ export function getTextSpans(textSpan: string | string[]): string[] {
   return Array.isArray(textSpan) ? textSpan : [textSpan]
 }
 
-// Checkpoint for time travel - stores state snapshot
+// Trim a hand-written record's fields and drop the empty ones
+export function cleanRecord(record: RecordType): RecordType {
+  return Object.fromEntries(
+    Object.entries(record).map(([key, value]) => [key, value?.trim()]).filter(([, value]) => value)
+  ) as RecordType
+}
+
+// Text edit script: retain n characters (positive), skip n characters (negative), or insert a string
+export type TextDelta = Array<number | string>
+
+// Checkpoint for time travel - stores state snapshot. Checkpoints form a tree: restoring an
+// earlier one and carrying on starts a new branch instead of discarding the later ones.
 export interface Checkpoint {
   checkpointId: string
+  parentId: string | null // Checkpoint this one followed; null for the first
   messageIndex: number // Index in messages array (after tool calls)
   timestamp: number
-  content: string // Document content at this point
+  visitedAt?: number // Last created or restored - the latest one is current after a reload
+  manual?: boolean // Made by the user rather than after an analysis; never pruned
+  name?: string // User-given, for manual checkpoints
+  comment?: string // User's note on why this checkpoint was made
+  summary?: string // Generated description of what changed since the parent
+  wordCount?: number // Of content, counted when the checkpoint was made
+  content?: string // Document content at this point - only on keyframes, see checkpointDelta
+  delta?: TextDelta // Otherwise: how to get the content from the parent's
   annotationIds: string[] // Annotations that existed at this point
+  annotationSnapshots?: Record<string, string> // annotationId -> snapshot hash, for restoring deleted annotations
+  annotationAnchors?: Record<string, TextAnchor[]> // annotationId -> anchors in this checkpoint's content
+  conversation?: Message[] // Branch conversation, kept when switching away from this checkpoint
+}
+
+// An annotation's body as a checkpoint saw it. Stored once per distinct body (keyed by its
+// hash) and shared by every checkpoint and note that references it. Anchors move with every
+// edit, so they're kept on each checkpoint instead.
+export type AnnotationSnapshot = Omit<TextSpanAnnotation, 'annotationId' | 'noteId' | 'orphaned' | 'anchors'>
+
+// Citation inserted into the note from an annotation record
+export interface Footnote {
+  footnoteId: string // Matches the [^id] marker in the note content
+  record: RecordType // Copied, so later edits to the annotation don't rewrite the citation
+  annotationId: string // Annotation the record was cited from
 }
 
 export interface NoteType {
@@ -61,5 +109,6 @@ export interface NoteType {
   content: string // Plain text content
   createdAt: number
   updatedAt: number
+  footnotes?: Footnote[] // Citations referenced by markers in the content
 }
 
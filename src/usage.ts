@@ -0,0 +1,170 @@
+import { TokenUsage } from './LLMService'
+import { getSettings, ProviderName } from './settings'
+
+// Usage is always persisted (even when conversations aren't) so the monthly budget survives reloads
+const USAGE_STORAGE_KEY = 'half-formed-thought-usage'
+
+// One entry per analysis run and provider that served it
+export interface UsageRecord {
+  runId: string
+  noteId: string
+  checkpointId: string | null // Checkpoint created by the run (if any)
+  provider: ProviderName
+  prompt_tokens: number
+  completion_tokens: number
+  cost: number // USD, priced with the table in effect when the run happened
+  timestamp: number
+}
+
+export interface UsageTotals {
+  prompt_tokens: number
+  completion_tokens: number
+  cost: number
+  runs: number
+}
+
+let records: UsageRecord[] | null = null
+
+function loadRecords(): UsageRecord[] {
+  if (records) return records
+
+  try {
+    const stored = localStorage.getItem(USAGE_STORAGE_KEY)
+    records = stored ? (JSON.parse(stored) as UsageRecord[]) : []
+  } catch (error) {
+    console.error('Error loading usage:', error)
+    records = []
+  }
+  return records
+}
+
+function saveRecords(): void {
+  try {
+    localStorage.setItem(USAGE_STORAGE_KEY, JSON.stringify(loadRecords()))
+  } catch (error) {
+    console.error('Error saving usage:', error)
+  }
+}
+
+export function calculateCost(provider: ProviderName, usage: TokenUsage): number {
+  const price = getSettings().prices[provider]
+  if (!price) return 0
+  return (usage.prompt_tokens * price.prompt + usage.completion_tokens * price.completion) / 1_000_000
+}
+
+// Add one call's usage into a per-provider accumulator for the current run
+export function addUsage(accumulator: Map<ProviderName, TokenUsage>, provider: ProviderName, usage: TokenUsage): void {
+  const existing = accumulator.get(provider) || { prompt_tokens: 0, completion_tokens: 0 }
+  accumulator.set(provider, {
+    prompt_tokens: existing.prompt_tokens + usage.prompt_tokens,
+    completion_tokens: existing.completion_tokens + usage.completion_tokens
+  })
+}
+
+// Totals for an in-progress run's accumulator
+export function summarizeUsage(usageByProvider: Map<ProviderName, TokenUsage>): UsageTotals {
+  const totals: UsageTotals = { prompt_tokens: 0, completion_tokens: 0, cost: 0, runs: usageByProvider.size > 0 ? 1 : 0 }
+  usageByProvider.forEach((usage, provider) => {
+    totals.prompt_tokens += usage.prompt_tokens
+    totals.completion_tokens += usage.completion_tokens
+    totals.cost += calculateCost(provider, usage)
+  })
+  return totals
+}
+
+// Record the usage of a finished (or failed/aborted) analysis run
+export function recordRunUsage(runId: string, noteId: string, usageByProvider: Map<ProviderName, TokenUsage>): UsageRecord[] {
+  const timestamp = Date.now()
+  const newRecords: UsageRecord[] = []
+
+  usageByProvider.forEach((usage, provider) => {
+    newRecords.push({
+      runId,
+      noteId,
+      checkpointId: null,
+      provider,
+      prompt_tokens: usage.prompt_tokens,
+      completion_tokens: usage.completion_tokens,
+      cost: calculateCost(provider, usage),
+      timestamp
+    })
+  })
+
+  if (newRecords.length > 0) {
+    loadRecords().push(...newRecords)
+    saveRecords()
+  }
+
+  return newRecords
+}
+
+// Associate a run with the checkpoint it produced
+export function attachCheckpoint(runId: string, checkpointId: string): void {
+  let changed = false
+  loadRecords().forEach(record => {
+    if (record.runId === runId) {
+      record.checkpointId = checkpointId
+      changed = true
+    }
+  })
+  if (changed) {
+    saveRecords()
+  }
+}
+
+function sumRecords(selected: UsageRecord[]): UsageTotals {
+  const runIds = new Set<string>()
+  const totals: UsageTotals = { prompt_tokens: 0, completion_tokens: 0, cost: 0, runs: 0 }
+
+  for (const record of selected) {
+    totals.prompt_tokens += record.prompt_tokens
+    totals.completion_tokens += record.completion_tokens
+    totals.cost += record.cost
+    runIds.add(record.runId)
+  }
+
+  totals.runs = runIds.size
+  return totals
+}
+
+export function getRunUsage(runId: string): UsageTotals {
+  return sumRecords(loadRecords().filter(r => r.runId === runId))
+}
+
+export function getCheckpointUsage(checkpointId: string): UsageTotals {
+  return sumRecords(loadRecords().filter(r => r.checkpointId === checkpointId))
+}
+
+export function getNoteUsage(noteId: string): UsageTotals {
+  return sumRecords(loadRecords().filter(r => r.noteId === noteId))
+}
+
+// Totals for the calendar month containing `date`, overall and per provider
+export function getMonthUsage(date: Date = new Date()): UsageTotals & { byProvider: Partial<Record<ProviderName, UsageTotals>> } {
+  const start = new Date(date.getFullYear(), date.getMonth(), 1).getTime()
+  const end = new Date(date.getFullYear(), date.getMonth() + 1, 1).getTime()
+  const monthRecords = loadRecords().filter(r => r.timestamp >= start && r.timestamp < end)
+
+  const byProvider: Partial<Record<ProviderName, UsageTotals>> = {}
+  const providers = new Set(monthRecords.map(r => r.provider))
+  providers.forEach(provider => {
+    byProvider[provider] = sumRecords(monthRecords.filter(r => r.provider === provider))
+  })
+
+  return { ...sumRecords(monthRecords), byProvider }
+}
+
+// Whether this month's spend has reached the configured budget
+export function isOverBudget(): boolean {
+  const { monthlyBudget } = getSettings()
+  if (!monthlyBudget || monthlyBudget <= 0) return false
+  return getMonthUsage().cost >= monthlyBudget
+}
+
+export function formatCost(cost: number): string {
+  return cost < 0.01 && cost > 0 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`
+}
+
+export function formatTokens(count: number): string {
+  return count >= 1000 ? `${(count / 1000).toFixed(1)}k` : `${count}`
+}
@@ -1,4 +1,5 @@
-export function debounce<T extends (...args: any[]) => void>(func: T, wait: number): T {
+// wait may be a function so the delay can follow a live setting
+export function debounce<T extends (...args: any[]) => void>(func: T, wait: number | (() => number)): T {
   let timeout: NodeJS.Timeout | null = null
   return ((...args: any[]) => {
     if (timeout) {
@@ -7,7 +8,32 @@ export function debounce<T extends (...args: any[]) => void>(func: T, wait: numb
     timeout = setTimeout(() => {
       func(...args)
       timeout = null
-    }, wait)
+    }, typeof wait === 'function' ? wait() : wait)
   }) as T
 }
 
+
+// Copy of items with the item at `from` moved to `to` (for drag reordering)
+export function moveItem<T>(items: T[], from: number, to: number): T[] {
+  const result = [...items]
+  const [item] = result.splice(from, 1)
+  result.splice(to, 0, item)
+  return result
+}
+
+// File-name-safe version of a title
+export function toFileSlug(name: string, fallback: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || fallback
+}
+
+// Save text as a file through the browser's download prompt
+export function downloadFile(fileName: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}